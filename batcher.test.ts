@@ -0,0 +1,214 @@
+import { EventBuffer, byteLength, splitBatches } from './batcher';
+import { NexusError } from './errors';
+import { NexusEvent } from './index';
+
+describe('EventBuffer', () => {
+  let sendBatch: jest.Mock;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    sendBatch = jest.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const event = (index: number): NexusEvent => ({ type: 'test.event', index });
+
+  it('should flush when the event count limit is reached', async () => {
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 3 });
+
+    buffer.add(event(1));
+    buffer.add(event(2));
+    expect(sendBatch).not.toHaveBeenCalled();
+
+    buffer.add(event(3));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+    expect(sendBatch).toHaveBeenCalledWith([event(1), event(2), event(3)]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should flush when the serialized byte limit is reached', async () => {
+    const size = byteLength(JSON.stringify(event(1)));
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 100, maxBytes: 2 * size + 3 });
+
+    buffer.add(event(1));
+    expect(sendBatch).not.toHaveBeenCalled();
+
+    buffer.add(event(2));
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(sendBatch).toHaveBeenCalledWith([event(1), event(2)]);
+  });
+
+  it('should split a flush into batches that respect maxBytes', async () => {
+    const size = byteLength(JSON.stringify(event(1)));
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 100, maxBytes: 2 * size + 3, maxAgeMs: 1000 });
+
+    buffer.add(event(1));
+    buffer.add(event(2));
+    buffer.add(event(3));
+    await buffer.flush();
+
+    expect(sendBatch.mock.calls.map(call => call[0].length)).toEqual([2, 1]);
+  });
+
+  it('should count multi-byte characters by their UTF-8 size', () => {
+    expect(byteLength('é')).toBe(2);
+    expect(byteLength('🚀')).toBe(4);
+  });
+
+  it('should flush events once they reach the maximum age', async () => {
+    const buffer = new EventBuffer(sendBatch, { maxAgeMs: 1000 });
+
+    buffer.add(event(1));
+    await jest.advanceTimersByTimeAsync(999);
+    expect(sendBatch).not.toHaveBeenCalled();
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(sendBatch).toHaveBeenCalledWith([event(1)]);
+  });
+
+  it('should only run one flush at a time', async () => {
+    let release!: () => void;
+    sendBatch.mockImplementationOnce(() => new Promise<void>(resolve => { release = resolve; }));
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 2 });
+
+    buffer.add(event(1));
+    const first = buffer.flush();
+    buffer.add(event(2));
+    buffer.add(event(3));
+    const second = buffer.flush();
+
+    expect(second).toBe(first);
+    expect(sendBatch).toHaveBeenCalledTimes(1);
+
+    release();
+    await first;
+
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+    expect(sendBatch).toHaveBeenLastCalledWith([event(2), event(3)]);
+  });
+
+  it('should re-queue a failed batch ahead of newer events', async () => {
+    const failure = new Error('endpoint down');
+    sendBatch.mockRejectedValueOnce(failure);
+    const buffer = new EventBuffer(sendBatch, { maxAgeMs: 1000 });
+
+    buffer.add(event(1));
+    buffer.add(event(2));
+    await expect(buffer.flush()).rejects.toBe(failure);
+    expect(buffer.size).toBe(2);
+
+    buffer.add(event(3));
+    await buffer.flush();
+
+    expect(sendBatch).toHaveBeenLastCalledWith([event(1), event(2), event(3)]);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should drop a failed batch that can never be delivered', async () => {
+    const failure = new Error('rejected');
+    sendBatch.mockRejectedValueOnce(failure);
+    const buffer = new EventBuffer(sendBatch, { maxAgeMs: 1000 }, error => error === failure);
+
+    buffer.add(event(1));
+    await expect(buffer.flush()).rejects.toBe(failure);
+
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should re-queue only the unsent events of a partly delivered batch', async () => {
+    const failure = Object.assign(new NexusError('endpoint down'), {
+      partial: { results: [{ delivered: [event(1)] }], unsent: [1] }
+    });
+    sendBatch.mockRejectedValueOnce(failure);
+    const buffer = new EventBuffer(sendBatch, { maxAgeMs: 1000 });
+
+    buffer.add(event(1));
+    buffer.add(event(2));
+    await expect(buffer.flush()).rejects.toBe(failure);
+
+    expect(buffer.size).toBe(1);
+    await buffer.flush();
+    expect(sendBatch).toHaveBeenLastCalledWith([event(2)]);
+  });
+
+  it('should retry a failed background flush on the next age tick', async () => {
+    const onFlushError = jest.fn();
+    sendBatch.mockRejectedValueOnce(new Error('endpoint down'));
+    const buffer = new EventBuffer(sendBatch, { maxAgeMs: 1000, onFlushError });
+
+    buffer.add(event(1));
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(onFlushError).toHaveBeenCalledWith(expect.any(Error));
+    expect(buffer.size).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(sendBatch).toHaveBeenCalledTimes(2);
+    expect(buffer.size).toBe(0);
+  });
+
+  it('should drop the oldest events beyond maxQueueEvents', () => {
+    sendBatch.mockReturnValue(new Promise(() => undefined));
+    const onDrop = jest.fn();
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 2, maxQueueEvents: 3, onDrop });
+
+    for (let i = 1; i <= 6; i++) {
+      buffer.add(event(i));
+    }
+
+    // The first two are in flight, so only the queued events count against the cap.
+    expect(buffer.size).toBe(3);
+    expect(buffer.dropped).toBe(1);
+    expect(onDrop).toHaveBeenCalledTimes(1);
+    expect(onDrop).toHaveBeenCalledWith([event(3)]);
+  });
+
+  it('should keep draining past an undeliverable batch on close', async () => {
+    const failure = new Error('rejected');
+    sendBatch.mockRejectedValueOnce(failure);
+    const buffer = new EventBuffer(sendBatch, { maxEvents: 1 }, error => error === failure);
+
+    buffer.add(event(1));
+    buffer.add(event(2));
+    buffer.add(event(3));
+
+    await expect(buffer.drainAll()).resolves.toEqual({ delivered: 2, failed: 0, dropped: 1, timedOut: false });
+    expect(sendBatch).toHaveBeenCalledTimes(3);
+  });
+
+  it('should resolve immediately when there is nothing to flush', async () => {
+    const buffer = new EventBuffer(sendBatch);
+
+    await buffer.flush();
+
+    expect(sendBatch).not.toHaveBeenCalled();
+  });
+});
+
+describe('splitBatches', () => {
+  it('should keep each serialized batch within the byte limit', () => {
+    const events = Array.from({ length: 5 }, (_, index) => ({ type: 'e', index }));
+    const limit = byteLength(JSON.stringify(events.slice(0, 2)));
+
+    const batches = splitBatches(events, limit);
+
+    expect(batches).toEqual([events.slice(0, 2), events.slice(2, 4), events.slice(4)]);
+  });
+
+  it('should send an oversized event on its own', () => {
+    const big = { type: 'big', padding: 'x'.repeat(100) };
+
+    expect(splitBatches([{ type: 'a' }, big, { type: 'b' }], 50)).toEqual([[{ type: 'a' }], [big], [{ type: 'b' }]]);
+  });
+
+  it('should cap the number of events per batch', () => {
+    const events = Array.from({ length: 5 }, (_, index) => ({ type: 'e', index }));
+
+    expect(splitBatches(events, Infinity, 2).map(batch => batch.length)).toEqual([2, 2, 1]);
+  });
+});
@@ -0,0 +1,296 @@
+import { NexusError } from './errors';
+import type { NexusEvent } from './index';
+
+export interface BatchingOptions {
+    /** Flush once this many events are buffered. */
+    maxEvents?: number;
+    /** Flush once the serialized batch reaches this many bytes. */
+    maxBytes?: number;
+    /** Flush events that have waited this long, even if the batch is not full. */
+    maxAgeMs?: number;
+    /** Upper bound on buffered events; the oldest are dropped beyond it. */
+    maxQueueEvents?: number;
+    /** Called with events dropped to honour `maxQueueEvents`. */
+    onDrop?: (events: NexusEvent[]) => void;
+    /** Called when a background flush fails; the batch stays queued for the next flush unless it can never be delivered. */
+    onFlushError?: (error: unknown) => void;
+}
+
+export interface CloseSummary {
+    /** Events delivered while draining. */
+    delivered: number;
+    /** Events still undelivered when draining stopped. */
+    failed: number;
+    /** Events discarded since the client was created: refused for good, or evicted beyond `maxQueueEvents`. */
+    dropped: number;
+    timedOut: boolean;
+}
+
+interface BufferedEvent {
+    event: NexusEvent;
+    bytes: number;
+}
+
+const encoder = new TextEncoder();
+
+export function byteLength(value: string): number {
+    return encoder.encode(value).length;
+}
+
+/** Serialized size of one event; the JSON size unless the body uses another encoding. `index` is its position in a send. */
+export type EventSizer = (event: NexusEvent, index?: number) => number;
+
+const jsonSize: EventSizer = event => byteLength(JSON.stringify(event));
+
+/**
+ * Splits events into consecutive batches of at most `maxEvents` whose serialized JSON array fits in `maxBytes`.
+ * The array framing is counted as JSON's, which is also an upper bound for NDJSON and MessagePack bodies.
+ */
+export function splitBatches(events: NexusEvent[], maxBytes = Infinity, maxEvents = Infinity, sizeOf: EventSizer = jsonSize): NexusEvent[][] {
+    const batches: NexusEvent[][] = [];
+    let current: NexusEvent[] = [];
+    let bytes = 2;
+    for (const [index, event] of events.entries()) {
+        // Sizing serializes the event, which is only worth it when there is a byte limit.
+        const size = maxBytes === Infinity ? 0 : sizeOf(event, index);
+        const next = bytes + (current.length > 0 ? 1 : 0) + size;
+        // A single oversized event still goes out on its own.
+        if (current.length > 0 && (next > maxBytes || current.length >= maxEvents)) {
+            batches.push(current);
+            current = [];
+            bytes = 2 + size;
+        } else {
+            bytes = next;
+        }
+        current.push(event);
+    }
+    if (current.length > 0) {
+        batches.push(current);
+    }
+    return batches;
+}
+
+export class EventBuffer {
+    private readonly maxEvents: number;
+    private readonly maxBytes: number;
+    private readonly maxAgeMs: number;
+    private readonly maxQueueEvents: number;
+    private readonly onFlushError?: (error: unknown) => void;
+    private readonly onDrop?: (events: NexusEvent[]) => void;
+
+    private queue: BufferedEvent[] = [];
+    private queuedBytes = 0;
+    private timer?: ReturnType<typeof setTimeout>;
+    private inFlight?: Promise<void>;
+    private inFlightEvents = 0;
+    private deliveredEvents = 0;
+    private droppedEvents = 0;
+    private stopped = false;
+
+    constructor(
+        private readonly sendBatch: (events: NexusEvent[]) => Promise<unknown>,
+        options: BatchingOptions = {},
+        private readonly isUndeliverable: (error: unknown) => boolean = () => false,
+        private readonly sizeOf: EventSizer = jsonSize,
+    ) {
+        this.maxEvents = Math.max(1, options.maxEvents ?? 100);
+        this.maxBytes = Math.max(1, options.maxBytes ?? 512 * 1024);
+        this.maxAgeMs = Math.max(0, options.maxAgeMs ?? 5000);
+        this.maxQueueEvents = Math.max(this.maxEvents, options.maxQueueEvents ?? 10_000);
+        this.onFlushError = options.onFlushError;
+        this.onDrop = options.onDrop;
+    }
+
+    get size(): number {
+        return this.queue.length;
+    }
+
+    /** Events discarded rather than delivered: refused for good, or evicted beyond `maxQueueEvents`. */
+    get dropped(): number {
+        return this.droppedEvents;
+    }
+
+    /** Buffered events plus the batch currently being sent. */
+    get pending(): number {
+        return this.queue.length + this.inFlightEvents;
+    }
+
+    add(event: NexusEvent): void {
+        const bytes = this.sizeOf(event);
+        this.queue.push({ event, bytes });
+        this.queuedBytes += bytes;
+
+        const evicted: NexusEvent[] = [];
+        while (this.queue.length > this.maxQueueEvents) {
+            const oldest = this.queue.shift()!;
+            this.queuedBytes -= oldest.bytes;
+            this.droppedEvents++;
+            evicted.push(oldest.event);
+        }
+
+        const full = this.queue.length >= this.maxEvents || this.queuedBatchBytes() >= this.maxBytes;
+        // An in-flight flush keeps draining until the queue is empty, so it picks this event up.
+        if (full && !this.inFlight) {
+            this.flushInBackground();
+        } else {
+            this.schedule();
+        }
+        if (evicted.length > 0) {
+            this.onDrop?.(evicted);
+        }
+    }
+
+    flush(): Promise<void> {
+        if (!this.inFlight) {
+            this.clearTimer();
+            this.inFlight = this.drain().finally(() => {
+                this.inFlight = undefined;
+                if (this.queue.length > 0) {
+                    this.schedule();
+                }
+            });
+        }
+        return this.inFlight;
+    }
+
+    /** Removes and returns every queued event, for callers that must send them immediately. */
+    /**
+     * Sends everything buffered at once through `send` instead of `sendBatch`, e.g. in unload-safe requests.
+     * A failure is settled like a regular batch: undelivered events go back to the front of the queue.
+     */
+    async sendAll(send: (events: NexusEvent[]) => Promise<unknown>): Promise<void> {
+        this.clearTimer();
+        const batch = this.queue;
+        if (batch.length === 0) {
+            return;
+        }
+        this.queue = [];
+        this.queuedBytes = 0;
+        await this.deliver(batch, send);
+    }
+
+    async drainAll(timeoutMs?: number): Promise<CloseSummary> {
+        const deliveredBefore = this.deliveredEvents;
+        this.stopped = true;
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let timedOut = false;
+
+        const drained = (async () => {
+            while (this.pending > 0 && !timedOut) {
+                const before = this.pending;
+                try {
+                    await this.flush();
+                } catch {
+                    // A batch that was dropped or partly delivered leaves the rest worth trying; stop once nothing moves.
+                    if (this.pending >= before) {
+                        return;
+                    }
+                }
+            }
+        })();
+
+        const deadline = timeoutMs === undefined ? drained : new Promise<void>(resolve => {
+            timer = setTimeout(() => {
+                timedOut = true;
+                resolve();
+            }, timeoutMs);
+        });
+
+        await Promise.race([drained, deadline]);
+        clearTimeout(timer);
+        this.clearTimer();
+
+        return {
+            delivered: this.deliveredEvents - deliveredBefore,
+            failed: this.pending,
+            dropped: this.droppedEvents,
+            timedOut,
+        };
+    }
+
+    private async drain(): Promise<void> {
+        while (this.queue.length > 0) {
+            await this.deliver(this.takeBatch(), this.sendBatch);
+        }
+    }
+
+    private async deliver(batch: BufferedEvent[], send: (events: NexusEvent[]) => Promise<unknown>): Promise<void> {
+        // Counted up and down, since an unload flush can overlap a regular one.
+        this.inFlightEvents += batch.length;
+        try {
+            await send(batch.map(item => item.event));
+            this.deliveredEvents += batch.length;
+        } catch (error) {
+            const requeued = this.settleFailure(batch, error);
+            this.queue.unshift(...requeued);
+            this.queuedBytes += requeued.reduce((total, item) => total + item.bytes, 0);
+            throw error;
+        } finally {
+            this.inFlightEvents -= batch.length;
+        }
+    }
+
+    /** Counts what a failed batch still delivered or dropped, and returns the events worth sending again. */
+    private settleFailure(batch: BufferedEvent[], error: unknown): BufferedEvent[] {
+        const partial = error instanceof NexusError ? error.partial : undefined;
+        if (partial) {
+            // The send reports which events its other requests delivered or dead-lettered.
+            const delivered = partial.results.reduce((total, result) => total + result.delivered.length, 0);
+            this.deliveredEvents += delivered;
+            this.droppedEvents += batch.length - delivered - partial.unsent.length;
+            return partial.unsent.map(index => batch[index]);
+        }
+        // Re-queuing a batch that can never succeed would block everything behind it.
+        if (this.isUndeliverable(error)) {
+            this.droppedEvents += batch.length;
+            return [];
+        }
+        return batch;
+    }
+
+    private takeBatch(): BufferedEvent[] {
+        // A single oversized event still goes out on its own rather than blocking the queue.
+        let count = 1;
+        let bytes = 2 + this.queue[0].bytes;
+        while (count < this.queue.length && count < this.maxEvents) {
+            const next = bytes + 1 + this.queue[count].bytes;
+            if (next > this.maxBytes) {
+                break;
+            }
+            bytes = next;
+            count++;
+        }
+
+        const batch = this.queue.splice(0, count);
+        this.queuedBytes -= batch.reduce((total, item) => total + item.bytes, 0);
+        return batch;
+    }
+
+    private queuedBatchBytes(): number {
+        // Surrounding brackets plus a comma between each event.
+        return 2 + Math.max(0, this.queue.length - 1) + this.queuedBytes;
+    }
+
+    private flushInBackground(): void {
+        this.flush().catch(error => this.onFlushError?.(error));
+    }
+
+    private schedule(): void {
+        if (this.timer || this.inFlight || this.stopped) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.flushInBackground();
+        }, this.maxAgeMs);
+        // Never keep a Node process alive just to flush telemetry.
+        (this.timer as { unref?: () => void }).unref?.();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
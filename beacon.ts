@@ -0,0 +1,33 @@
+export interface BeaconOptions {
+    /** Signed URL to send beacons to, used as-is. Defaults to `url` with the token in the query string. */
+    url?: string | (() => string);
+    /** Query parameter carrying the token when no signed `url` is given. Defaults to `token`. */
+    tokenParam?: string;
+}
+
+/** Resolves where beacons are sent, or `undefined` when beacons are disabled. */
+export function resolveBeaconUrl(options: BeaconOptions | boolean | undefined, url: string, token: string): (() => string) | undefined {
+    if (!options) {
+        return undefined;
+    }
+    const resolved = options === true ? {} : options;
+    const signed = resolved.url;
+    if (signed) {
+        return typeof signed === 'function' ? signed : () => signed;
+    }
+    const param = resolved.tokenParam ?? 'token';
+    return () => {
+        const target = new URL(url, typeof location !== 'undefined' ? location.href : undefined);
+        target.searchParams.set(param, token);
+        return target.toString();
+    };
+}
+
+/** Queues the body with `navigator.sendBeacon`. Returns false when beacons are unavailable or the browser refused it. */
+export function queueBeacon(url: string, body: string | Uint8Array): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+        return false;
+    }
+    // sendBeacon cannot make a CORS preflight, so stick to a safelisted content type.
+    return navigator.sendBeacon(url, new Blob([body], { type: 'text/plain;charset=UTF-8' }));
+}
@@ -0,0 +1,96 @@
+import { CircuitBreaker } from './breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  const fail = (breaker: CircuitBreaker, times: number) => {
+    for (let i = 0; i < times; i++) {
+      breaker.tryAcquire();
+      breaker.recordFailure();
+    }
+  };
+
+  it('should open once the failure threshold is reached', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3 });
+
+    fail(breaker, 2);
+    expect(breaker.state().state).toBe('closed');
+    fail(breaker, 1);
+
+    expect(breaker.state()).toMatchObject({ state: 'open', failures: 3, retryAt: Date.now() + 30000 });
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should only count failures inside the rolling window', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, windowMs: 1000 });
+
+    fail(breaker, 2);
+    jest.advanceTimersByTime(1000);
+    fail(breaker, 2);
+
+    expect(breaker.state()).toMatchObject({ state: 'closed', failures: 2 });
+  });
+
+  it('should let a single probe through once the reset timeout has passed', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 5000 });
+    fail(breaker, 1);
+
+    jest.advanceTimersByTime(5000);
+
+    expect(breaker.state().state).toBe('half-open');
+    expect(breaker.tryAcquire()).toBe(true);
+    expect(breaker.tryAcquire()).toBe(false);
+  });
+
+  it('should close after a successful probe', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+    fail(breaker, 1);
+
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(breaker.state()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+
+  it('should reopen after a failed probe', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 5, resetTimeoutMs: 1000 });
+    fail(breaker, 5);
+    jest.advanceTimersByTime(1000);
+
+    fail(breaker, 1);
+
+    expect(breaker.state().state).toBe('open');
+  });
+
+  it('should free the probe when it is released', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 0 });
+    fail(breaker, 1);
+    breaker.tryAcquire();
+
+    breaker.release();
+
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('should report every state change', () => {
+    const onStateChange = jest.fn();
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1000, onStateChange });
+
+    fail(breaker, 1);
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.recordSuccess();
+
+    expect(onStateChange.mock.calls).toEqual([
+      ['open', 'closed'],
+      ['half-open', 'open'],
+      ['closed', 'half-open']
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import type { NexusEvent } from './index';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    /** Open after this many failed requests within `windowMs`. Defaults to 5. */
+    failureThreshold?: number;
+    /** Rolling window failures are counted in. Defaults to 60000. */
+    windowMs?: number;
+    /** How long to stay open before letting a single probe request through. Defaults to 30000. */
+    resetTimeoutMs?: number;
+    /** Receives the events of a send made while the circuit is open, instead of failing it (e.g. an outbox). */
+    fallback?: (events: NexusEvent[]) => unknown;
+    onStateChange?: (state: CircuitState, previous: CircuitState) => void;
+}
+
+export interface CircuitBreakerState {
+    state: CircuitState;
+    /** Failures counted in the current window. */
+    failures: number;
+    /** When an open circuit lets the next probe through, in epoch milliseconds. */
+    retryAt?: number;
+}
+
+export class CircuitBreaker {
+    private readonly failureThreshold: number;
+    private readonly windowMs: number;
+    private readonly resetTimeoutMs: number;
+
+    private current: CircuitState = 'closed';
+    private failures: number[] = [];
+    private openedAt = 0;
+    private probing = false;
+
+    constructor(private readonly options: CircuitBreakerOptions = {}) {
+        this.failureThreshold = Math.max(1, options.failureThreshold ?? 5);
+        this.windowMs = Math.max(1, options.windowMs ?? 60_000);
+        this.resetTimeoutMs = Math.max(0, options.resetTimeoutMs ?? 30_000);
+    }
+
+    get fallback(): ((events: NexusEvent[]) => unknown) | undefined {
+        return this.options.fallback;
+    }
+
+    /** Whether a request made now would be refused. */
+    isRejecting(): boolean {
+        this.advance();
+        return this.current === 'open' || (this.current === 'half-open' && this.probing);
+    }
+
+    /** Claims permission for one request; false when the circuit refuses it. */
+    tryAcquire(): boolean {
+        if (this.isRejecting()) {
+            return false;
+        }
+        if (this.current === 'half-open') {
+            this.probing = true;
+        }
+        return true;
+    }
+
+    recordSuccess(): void {
+        this.probing = false;
+        if (this.current !== 'closed') {
+            this.failures = [];
+            this.transition('closed');
+        }
+    }
+
+    recordFailure(): void {
+        const now = Date.now();
+        this.probing = false;
+        this.failures = this.failures.filter(at => now - at < this.windowMs);
+        this.failures.push(now);
+
+        if (this.current === 'half-open' || (this.current === 'closed' && this.failures.length >= this.failureThreshold)) {
+            this.openedAt = now;
+            this.transition('open');
+        }
+    }
+
+    /** Gives up a claimed probe without judging the endpoint, e.g. when the caller aborted. */
+    release(): void {
+        this.probing = false;
+    }
+
+    state(): CircuitBreakerState {
+        this.advance();
+        const now = Date.now();
+        return {
+            state: this.current,
+            failures: this.failures.filter(at => now - at < this.windowMs).length,
+            retryAt: this.current === 'open' ? this.openedAt + this.resetTimeoutMs : undefined,
+        };
+    }
+
+    private advance(): void {
+        if (this.current === 'open' && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+            this.transition('half-open');
+        }
+    }
+
+    private transition(state: CircuitState): void {
+        const previous = this.current;
+        this.current = state;
+        this.options.onStateChange?.(state, previous);
+    }
+}
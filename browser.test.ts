@@ -0,0 +1,394 @@
+import { IDBFactory } from 'fake-indexeddb';
+import { NexusClient } from './index';
+import {
+  IndexedDBStorage,
+  LocalStorageStorage,
+  MemoryStorage,
+  OfflineQueue,
+  OfflineStorage,
+  createOfflineStorage,
+  registerUnloadFlush
+} from './browser';
+
+class MemoryWebStorage {
+  private items = new Map<string, string>();
+  getItem(key: string) { return this.items.get(key) ?? null; }
+  setItem(key: string, value: string) { this.items.set(key, value); }
+  removeItem(key: string) { this.items.delete(key); }
+}
+
+const batch = (id: string, createdAt: number, ...types: string[]) => ({
+  id,
+  createdAt,
+  events: types.map(type => ({ type }))
+});
+
+describe.each<[string, () => OfflineStorage]>([
+  ['IndexedDBStorage', () => new IndexedDBStorage('test-queue', new IDBFactory())],
+  ['LocalStorageStorage', () => new LocalStorageStorage('test-queue', new MemoryWebStorage() as unknown as Storage)],
+  ['MemoryStorage', () => new MemoryStorage()]
+])('%s', (name, createStorage) => {
+  it('should load batches oldest first', async () => {
+    const storage = createStorage();
+
+    await storage.put(batch('b', 2, 'second'));
+    await storage.put(batch('a', 1, 'first'));
+
+    expect((await storage.load()).map(stored => stored.id)).toEqual(['a', 'b']);
+  });
+
+  it('should replace a batch with the same id', async () => {
+    const storage = createStorage();
+
+    await storage.put(batch('a', 1, 'one', 'two'));
+    await storage.put(batch('a', 1, 'two'));
+
+    expect(await storage.load()).toEqual([batch('a', 1, 'two')]);
+  });
+
+  it('should keep every batch put concurrently', async () => {
+    const storage = createStorage();
+
+    await Promise.all([storage.put(batch('a', 1, 'first')), storage.put(batch('b', 2, 'second')), storage.put(batch('c', 3, 'third'))]);
+
+    expect((await storage.load()).map(stored => stored.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should delete batches by id', async () => {
+    const storage = createStorage();
+    await storage.put(batch('a', 1, 'first'));
+    await storage.put(batch('b', 2, 'second'));
+
+    await storage.delete(['a']);
+
+    expect((await storage.load()).map(stored => stored.id)).toEqual(['b']);
+  });
+});
+
+describe('createOfflineStorage', () => {
+  afterEach(() => {
+    delete (globalThis as any).indexedDB;
+    delete (globalThis as any).localStorage;
+  });
+
+  it('should use IndexedDB when it opens', async () => {
+    (globalThis as any).indexedDB = new IDBFactory();
+    const webStorage = new MemoryWebStorage();
+    (globalThis as any).localStorage = webStorage;
+
+    const storage = createOfflineStorage('test-queue');
+    await storage.put(batch('a', 1, 'first'));
+
+    expect(await storage.load()).toEqual([batch('a', 1, 'first')]);
+    expect(webStorage.getItem('test-queue')).toBeNull();
+  });
+
+  it('should fall back to localStorage when IndexedDB fails to open', async () => {
+    const open = jest.fn(() => {
+      const request: Partial<IDBOpenDBRequest> = {};
+      setTimeout(() => request.onerror?.call(request as IDBOpenDBRequest, new Event('error')));
+      return request;
+    });
+    (globalThis as any).indexedDB = { open };
+    const webStorage = new MemoryWebStorage();
+    (globalThis as any).localStorage = webStorage;
+
+    const storage = createOfflineStorage('test-queue');
+    await storage.put(batch('a', 1, 'first'));
+    await storage.put(batch('b', 2, 'second'));
+
+    expect(await storage.load()).toEqual([batch('a', 1, 'first'), batch('b', 2, 'second')]);
+    expect(JSON.parse(webStorage.getItem('test-queue')!)).toHaveLength(2);
+    expect(open).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('OfflineQueue', () => {
+  let mockFetch: jest.Mock;
+  let client: NexusClient;
+  let storage: MemoryStorage;
+  const navigatorDescriptor = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+
+  const setOnline = (onLine: boolean) => {
+    Object.defineProperty(globalThis, 'navigator', { value: { onLine }, configurable: true });
+  };
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockImplementation(async () => new Response('OK', { status: 200 }));
+    client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch });
+    storage = new MemoryStorage();
+    setOnline(true);
+  });
+
+  afterEach(() => {
+    if (navigatorDescriptor) {
+      Object.defineProperty(globalThis, 'navigator', navigatorDescriptor);
+    } else {
+      delete (globalThis as any).navigator;
+    }
+  });
+
+  it('should send straight away while online', async () => {
+    const queue = new OfflineQueue(client, { storage });
+
+    await expect(queue.send({ type: 'page.view' })).resolves.toBe(true);
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should store events without sending while offline', async () => {
+    setOnline(false);
+    const queue = new OfflineQueue(client, { storage });
+
+    await expect(queue.send({ type: 'page.view' })).resolves.toBe(false);
+
+    expect(mockFetch).not.toHaveBeenCalled();
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should store events after a transient failure', async () => {
+    mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+    const queue = new OfflineQueue(client, { storage });
+
+    await expect(queue.send({ type: 'page.view' })).resolves.toBe(false);
+
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should rethrow permanent failures instead of storing them', async () => {
+    mockFetch.mockImplementation(async () => new Response('bad', { status: 400 }));
+    const queue = new OfflineQueue(client, { storage });
+
+    await expect(queue.send({ type: 'page.view' })).rejects.toMatchObject({ status: 400 });
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should store events and rethrow when the token is refused', async () => {
+    mockFetch.mockImplementation(async () => new Response('denied', { status: 401 }));
+    const queue = new OfflineQueue(client, { storage });
+
+    await expect(queue.send({ type: 'page.view' })).rejects.toMatchObject({ status: 401 });
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('should retry stored batches in order and remove them once sent', async () => {
+    setOnline(false);
+    const queue = new OfflineQueue(client, { storage });
+    await queue.send({ type: 'first' });
+    await queue.send({ type: 'second' });
+
+    setOnline(true);
+    await queue.retry();
+
+    expect(mockFetch.mock.calls.map(call => JSON.parse(call[1].body)[0].type)).toEqual(['first', 'second']);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should stop retrying at the first transient failure', async () => {
+    setOnline(false);
+    const queue = new OfflineQueue(client, { storage });
+    await queue.send({ type: 'first' });
+    await queue.send({ type: 'second' });
+
+    setOnline(true);
+    mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+    await queue.retry();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(2);
+  });
+
+  it('should drop permanently rejected batches and report them', async () => {
+    setOnline(false);
+    const onError = jest.fn();
+    const queue = new OfflineQueue(client, { storage, onError });
+    await queue.send({ type: 'invalid' });
+    await queue.send({ type: 'valid' });
+
+    setOnline(true);
+    mockFetch
+      .mockImplementationOnce(async () => new Response('bad', { status: 400 }))
+      .mockImplementationOnce(async () => new Response('OK', { status: 200 }));
+    await queue.retry();
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }), [{ type: 'invalid' }]);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('should keep stored batches when the token is refused', async () => {
+    setOnline(false);
+    const onError = jest.fn();
+    const queue = new OfflineQueue(client, { storage, onError });
+    await queue.send({ type: 'first' });
+    await queue.send({ type: 'second' });
+
+    setOnline(true);
+    mockFetch.mockImplementation(async () => new Response('denied', { status: 401 }));
+    await queue.retry();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(onError).not.toHaveBeenCalled();
+    expect(await queue.size()).toBe(2);
+  });
+
+  it('should store only the events a split send did not deliver', async () => {
+    const splitting = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, maxBatchEvents: 1 });
+    mockFetch
+      .mockImplementationOnce(async () => new Response('OK', { status: 200 }))
+      .mockImplementation(async () => new Response('down', { status: 503 }));
+    const queue = new OfflineQueue(splitting, { storage });
+
+    await expect(queue.send([{ type: 'first' }, { type: 'second' }])).resolves.toBe(false);
+
+    expect((await storage.load()).flatMap(stored => stored.events)).toEqual([{ type: 'second' }]);
+  });
+
+  it('should keep only the undelivered part of a stored batch', async () => {
+    setOnline(false);
+    const splitting = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, maxBatchEvents: 1 });
+    const queue = new OfflineQueue(splitting, { storage });
+    await queue.send([{ type: 'first' }, { type: 'second' }]);
+
+    setOnline(true);
+    mockFetch
+      .mockImplementationOnce(async () => new Response('OK', { status: 200 }))
+      .mockImplementation(async () => new Response('down', { status: 503 }));
+    await queue.retry();
+
+    expect((await storage.load()).flatMap(stored => stored.events)).toEqual([{ type: 'second' }]);
+  });
+
+  it('should retry stored batches with the same event ids and idempotency key', async () => {
+    const idempotent = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, retry: false, idempotency: true });
+    mockFetch.mockImplementationOnce(async () => new Response('down', { status: 503 }));
+    const queue = new OfflineQueue(idempotent, { storage });
+    await queue.send({ type: 'page.view' });
+
+    await queue.retry();
+
+    const [first, second] = mockFetch.mock.calls.map(call => call[1]);
+    expect(second.body).toBe(first.body);
+    expect(JSON.parse(first.body)[0].id).toEqual(expect.any(String));
+    expect(second.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+  });
+
+  it('should evict the oldest events beyond maxStoredEvents', async () => {
+    setOnline(false);
+    const onEvict = jest.fn();
+    const queue = new OfflineQueue(client, { storage, maxStoredEvents: 3, onEvict });
+
+    await queue.send([{ type: 'e1' }, { type: 'e2' }]);
+    await queue.send([{ type: 'e3' }, { type: 'e4' }]);
+    await queue.send({ type: 'e5' });
+
+    const stored = (await storage.load()).flatMap(batch => batch.events.map(event => event.type));
+    expect(stored).toEqual(['e3', 'e4', 'e5']);
+    expect(onEvict.mock.calls).toEqual([[[{ type: 'e1' }]], [[{ type: 'e2' }]]]);
+  });
+
+  it('should trim a partially evicted batch', async () => {
+    setOnline(false);
+    const queue = new OfflineQueue(client, { storage, maxStoredEvents: 2 });
+
+    await queue.send([{ type: 'e1' }, { type: 'e2' }, { type: 'e3' }]);
+
+    const stored = (await storage.load()).flatMap(batch => batch.events.map(event => event.type));
+    expect(stored).toEqual(['e2', 'e3']);
+  });
+
+  it('should retry when the browser comes back online', async () => {
+    const target = new EventTarget();
+    const listeners = {
+      addEventListener: target.addEventListener.bind(target),
+      removeEventListener: target.removeEventListener.bind(target)
+    };
+    Object.assign(globalThis, listeners);
+    try {
+      setOnline(false);
+      const queue = new OfflineQueue(client, { storage, retryIntervalMs: 60000 });
+      await queue.send({ type: 'queued' });
+      queue.start();
+
+      setOnline(true);
+      target.dispatchEvent(new Event('online'));
+      await queue.retry();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      queue.stop();
+    } finally {
+      delete (globalThis as any).addEventListener;
+      delete (globalThis as any).removeEventListener;
+    }
+  });
+});
+
+describe('registerUnloadFlush', () => {
+  let mockFetch: jest.Mock;
+  let client: NexusClient;
+  let windowTarget: EventTarget;
+  let documentTarget: EventTarget & { visibilityState: string };
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockImplementation(async () => new Response('OK', { status: 200 }));
+    client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch });
+    windowTarget = new EventTarget();
+    documentTarget = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+    Object.assign(globalThis, {
+      addEventListener: windowTarget.addEventListener.bind(windowTarget),
+      removeEventListener: windowTarget.removeEventListener.bind(windowTarget),
+      document: documentTarget
+    });
+  });
+
+  afterEach(() => {
+    delete (globalThis as any).addEventListener;
+    delete (globalThis as any).removeEventListener;
+    delete (globalThis as any).document;
+  });
+
+  it('should flush with keepalive when the page is hidden', async () => {
+    const unregister = registerUnloadFlush(client);
+    client.track({ type: 'page.view' });
+
+    documentTarget.visibilityState = 'hidden';
+    documentTarget.dispatchEvent(new Event('visibilitychange'));
+    await Promise.resolve();
+
+    expect(mockFetch.mock.calls[0][1]).toMatchObject({ keepalive: true });
+    unregister();
+  });
+
+  it('should flush on pagehide', async () => {
+    const unregister = registerUnloadFlush(client);
+    client.track({ type: 'page.view' });
+
+    windowTarget.dispatchEvent(new Event('pagehide'));
+    await Promise.resolve();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    unregister();
+  });
+
+  it('should stop listening once unregistered', () => {
+    registerUnloadFlush(client)();
+    client.track({ type: 'page.view' });
+
+    windowTarget.dispatchEvent(new Event('pagehide'));
+
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should report flush failures to onError', async () => {
+    mockFetch.mockImplementation(async () => new Response('bad', { status: 400 }));
+    const onError = jest.fn();
+    const unregister = registerUnloadFlush(client, { onError });
+    client.track({ type: 'page.view' });
+
+    windowTarget.dispatchEvent(new Event('pagehide'));
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }));
+    unregister();
+  });
+});
@@ -0,0 +1,406 @@
+import { isUndeliverable } from './deadletter';
+import { NexusError } from './errors';
+import type { NexusClient, NexusEvent } from './index';
+import { randomId } from './ids';
+
+export interface StoredBatch {
+    id: string;
+    createdAt: number;
+    /** Sent as the `Idempotency-Key` of every retry, when the client uses `idempotency`. */
+    key?: string;
+    events: NexusEvent[];
+}
+
+/** Where the offline queue keeps batches that could not be sent yet. */
+export interface OfflineStorage {
+    /** All stored batches, oldest first. */
+    load(): Promise<StoredBatch[]>;
+    put(batch: StoredBatch): Promise<void>;
+    delete(ids: string[]): Promise<void>;
+}
+
+export class IndexedDBStorage implements OfflineStorage {
+    private db?: Promise<IDBDatabase>;
+
+    constructor(
+        private readonly databaseName = 'nexus-offline-queue',
+        private readonly factory: IDBFactory = indexedDB,
+    ) {}
+
+    async load(): Promise<StoredBatch[]> {
+        const batches = await this.request<StoredBatch[]>('readonly', store => store.getAll());
+        return batches.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async put(batch: StoredBatch): Promise<void> {
+        await this.request('readwrite', store => store.put(batch));
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        if (ids.length === 0) {
+            return;
+        }
+        const db = await this.open();
+        await new Promise<void>((resolve, reject) => {
+            const transaction = db.transaction('batches', 'readwrite');
+            const store = transaction.objectStore('batches');
+            ids.forEach(id => store.delete(id));
+            transaction.oncomplete = () => resolve();
+            transaction.onerror = () => reject(transaction.error);
+            transaction.onabort = () => reject(transaction.error);
+        });
+    }
+
+    /** Opens the database once; after a failure, the next call tries again. */
+    open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((resolve, reject) => {
+                const request = this.factory.open(this.databaseName, 1);
+                request.onupgradeneeded = () => {
+                    request.result.createObjectStore('batches', { keyPath: 'id' });
+                };
+                request.onsuccess = () => resolve(request.result);
+                request.onerror = () => reject(request.error);
+            });
+            this.db.catch(() => {
+                this.db = undefined;
+            });
+        }
+        return this.db;
+    }
+
+    private async request<T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+        const db = await this.open();
+        return new Promise<T>((resolve, reject) => {
+            const request = operation(db.transaction('batches', mode).objectStore('batches'));
+            request.onsuccess = () => resolve(request.result as T);
+            request.onerror = () => reject(request.error);
+        });
+    }
+}
+
+export class LocalStorageStorage implements OfflineStorage {
+    constructor(
+        private readonly key = 'nexus-offline-queue',
+        private readonly storage: Storage = localStorage,
+    ) {}
+
+    async load(): Promise<StoredBatch[]> {
+        return this.read();
+    }
+
+    async put(batch: StoredBatch): Promise<void> {
+        const batches = this.read().filter(stored => stored.id !== batch.id);
+        this.save([...batches, batch]);
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        const remove = new Set(ids);
+        this.save(this.read().filter(batch => !remove.has(batch.id)));
+    }
+
+    /** Synchronous, so `put` and `delete` write back with no await in between for a concurrent call to slip into. */
+    private read(): StoredBatch[] {
+        try {
+            const batches = JSON.parse(this.storage.getItem(this.key) || '[]') as StoredBatch[];
+            return batches.sort((a, b) => a.createdAt - b.createdAt);
+        } catch {
+            return [];
+        }
+    }
+
+    private save(batches: StoredBatch[]): void {
+        if (batches.length === 0) {
+            this.storage.removeItem(this.key);
+        } else {
+            this.storage.setItem(this.key, JSON.stringify(batches));
+        }
+    }
+}
+
+export class MemoryStorage implements OfflineStorage {
+    private batches: StoredBatch[] = [];
+
+    async load(): Promise<StoredBatch[]> {
+        return [...this.batches].sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    async put(batch: StoredBatch): Promise<void> {
+        this.batches = [...this.batches.filter(stored => stored.id !== batch.id), batch];
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        const remove = new Set(ids);
+        this.batches = this.batches.filter(batch => !remove.has(batch.id));
+    }
+}
+
+/**
+ * IndexedDB where available, then localStorage, then an in-memory store. IndexedDB can exist
+ * and still fail to open (e.g. blocked by the browser), so the choice is made on first use.
+ */
+export function createOfflineStorage(name = 'nexus-offline-queue'): OfflineStorage {
+    if (typeof indexedDB !== 'undefined') {
+        return new FallbackStorage(new IndexedDBStorage(name), () => createWebStorage(name));
+    }
+    return createWebStorage(name);
+}
+
+/** Uses IndexedDB once it opens, or the fallback for good if it does not. */
+class FallbackStorage implements OfflineStorage {
+    private storage?: Promise<OfflineStorage>;
+
+    constructor(
+        private readonly primary: IndexedDBStorage,
+        private readonly fallback: () => OfflineStorage,
+    ) {}
+
+    async load(): Promise<StoredBatch[]> {
+        return (await this.resolve()).load();
+    }
+
+    async put(batch: StoredBatch): Promise<void> {
+        return (await this.resolve()).put(batch);
+    }
+
+    async delete(ids: string[]): Promise<void> {
+        return (await this.resolve()).delete(ids);
+    }
+
+    private resolve(): Promise<OfflineStorage> {
+        if (!this.storage) {
+            this.storage = this.primary.open().then(() => this.primary, () => this.fallback());
+        }
+        return this.storage;
+    }
+}
+
+function createWebStorage(name: string): OfflineStorage {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            return new LocalStorageStorage(name);
+        }
+    } catch {
+        // Accessing localStorage throws when storage is disabled (e.g. some private modes).
+    }
+    return new MemoryStorage();
+}
+
+export interface OfflineQueueOptions {
+    storage?: OfflineStorage;
+    /** Most events kept in storage; the oldest are evicted beyond it. */
+    maxStoredEvents?: number;
+    /** How often stored batches are retried while the page stays online. */
+    retryIntervalMs?: number;
+    /** Called with events evicted to honour `maxStoredEvents`. */
+    onEvict?: (events: NexusEvent[]) => void;
+    /** Called when a stored batch is permanently rejected and removed. */
+    onError?: (error: unknown, events: NexusEvent[]) => void;
+}
+
+export class OfflineQueue {
+    private readonly storage: OfflineStorage;
+    private readonly maxStoredEvents: number;
+    private readonly retryIntervalMs: number;
+    private inFlight?: Promise<void>;
+    private interval?: ReturnType<typeof setInterval>;
+    private lastCreatedAt = 0;
+    private readonly onOnline = () => { this.retryInBackground(); };
+    private readonly onVisibilityChange = () => {
+        if (document.visibilityState === 'visible') {
+            this.retryInBackground();
+        }
+    };
+
+    constructor(private readonly client: NexusClient, private readonly options: OfflineQueueOptions = {}) {
+        this.storage = options.storage ?? createOfflineStorage();
+        this.maxStoredEvents = Math.max(1, options.maxStoredEvents ?? 1000);
+        this.retryIntervalMs = Math.max(0, options.retryIntervalMs ?? 30_000);
+    }
+
+    /**
+     * Sends the events, or stores them when the browser is offline or the failure is transient.
+     * Resolves with `true` when delivered and `false` when queued.
+     */
+    async send(events: NexusEvent | NexusEvent[]): Promise<boolean> {
+        // Stamped up front, so a stored copy is retried with the ids and key of this first attempt.
+        const batch = this.client.stampEventIds(Array.isArray(events) ? events : [events]);
+        const key = this.client.idempotencyKey();
+        if (isOffline()) {
+            await this.store(batch, key);
+            return false;
+        }
+
+        try {
+            await this.client.send(batch, { idempotencyKey: key });
+            return true;
+        } catch (error) {
+            const unsent = unsentEvents(batch, error);
+            // The key stands for the whole batch, so a remainder needs one of its own.
+            await this.store(unsent, unsent.length === batch.length ? key : this.client.idempotencyKey());
+            // A failure such as an auth error keeps the events but still needs the caller's attention.
+            if (error instanceof NexusError && !error.isRetryable) {
+                throw error;
+            }
+            return false;
+        }
+    }
+
+    async enqueue(events: NexusEvent[]): Promise<void> {
+        await this.store(this.client.stampEventIds(events), this.client.idempotencyKey());
+    }
+
+    /** Retries stored batches oldest first, stopping at the first transient failure. */
+    retry(): Promise<void> {
+        if (!this.inFlight) {
+            this.inFlight = this.drain().finally(() => {
+                this.inFlight = undefined;
+            });
+        }
+        return this.inFlight;
+    }
+
+    async size(): Promise<number> {
+        return (await this.storage.load()).reduce((total, batch) => total + batch.events.length, 0);
+    }
+
+    /** Listens for `online` and visibility changes and retries on an interval. */
+    start(): void {
+        if (this.interval) {
+            return;
+        }
+        if (typeof addEventListener === 'function') {
+            addEventListener('online', this.onOnline);
+        }
+        if (typeof document !== 'undefined') {
+            document.addEventListener('visibilitychange', this.onVisibilityChange);
+        }
+        this.interval = setInterval(() => this.retryInBackground(), this.retryIntervalMs);
+        this.retryInBackground();
+    }
+
+    stop(): void {
+        if (typeof removeEventListener === 'function') {
+            removeEventListener('online', this.onOnline);
+        }
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', this.onVisibilityChange);
+        }
+        clearInterval(this.interval);
+        this.interval = undefined;
+    }
+
+    private async drain(): Promise<void> {
+        for (const batch of await this.storage.load()) {
+            if (isOffline()) {
+                return;
+            }
+            try {
+                await this.client.send(batch.events, { idempotencyKey: batch.key });
+            } catch (error) {
+                const unsent = unsentEvents(batch.events, error);
+                if (unsent.length === 0) {
+                    await this.storage.delete([batch.id]);
+                    this.options.onError?.(error, batch.events);
+                    continue;
+                }
+                if (unsent.length < batch.events.length) {
+                    await this.storage.put({ ...batch, events: unsent, key: this.client.idempotencyKey() });
+                }
+                return;
+            }
+            await this.storage.delete([batch.id]);
+        }
+    }
+
+    private async store(events: NexusEvent[], key: string | undefined): Promise<void> {
+        if (events.length === 0) {
+            return;
+        }
+        // Strictly increasing so batches stored within the same millisecond keep their order.
+        this.lastCreatedAt = Math.max(Date.now(), this.lastCreatedAt + 1);
+        await this.storage.put({ id: randomId(), createdAt: this.lastCreatedAt, key, events });
+        await this.evict();
+    }
+
+    private async evict(): Promise<void> {
+        const batches = await this.storage.load();
+        let excess = batches.reduce((total, batch) => total + batch.events.length, 0) - this.maxStoredEvents;
+        const evicted: NexusEvent[] = [];
+
+        for (const batch of batches) {
+            if (excess <= 0) {
+                break;
+            }
+            if (batch.events.length <= excess) {
+                await this.storage.delete([batch.id]);
+                evicted.push(...batch.events);
+                excess -= batch.events.length;
+            } else {
+                evicted.push(...batch.events.slice(0, excess));
+                const events = batch.events.slice(excess);
+                await this.storage.put({ ...batch, events, key: this.client.idempotencyKey() });
+                excess = 0;
+            }
+        }
+
+        if (evicted.length > 0) {
+            this.options.onEvict?.(evicted);
+        }
+    }
+
+    private retryInBackground(): void {
+        this.retry().catch(() => undefined);
+    }
+}
+
+export interface UnloadFlushOptions {
+    /** Prefer `navigator.sendBeacon`; the client needs the `beacon` option. Defaults to keepalive `fetch`. */
+    beacon?: boolean;
+    onError?: (error: unknown) => void;
+}
+
+/**
+ * Flushes buffered events with unload-safe requests when the page is hidden or unloaded.
+ * Returns a function that removes the listeners.
+ */
+export function registerUnloadFlush(client: NexusClient, options: UnloadFlushOptions = {}): () => void {
+    const flush = () => {
+        client.flush({ keepalive: true, beacon: options.beacon }).catch(error => options.onError?.(error));
+    };
+    // `visibilitychange` is the last event mobile browsers reliably fire; `pagehide` covers the rest.
+    const onVisibilityChange = () => {
+        if (document.visibilityState === 'hidden') {
+            flush();
+        }
+    };
+
+    if (typeof document !== 'undefined') {
+        document.addEventListener('visibilitychange', onVisibilityChange);
+    }
+    if (typeof addEventListener === 'function') {
+        addEventListener('pagehide', flush);
+    }
+
+    return () => {
+        if (typeof document !== 'undefined') {
+            document.removeEventListener('visibilitychange', onVisibilityChange);
+        }
+        if (typeof removeEventListener === 'function') {
+            removeEventListener('pagehide', flush);
+        }
+    };
+}
+
+/** Events a failed send can retry: those it never got to when it got partway, otherwise all unless they can never be delivered. */
+function unsentEvents(events: NexusEvent[], error: unknown): NexusEvent[] {
+    const partial = error instanceof NexusError ? error.partial : undefined;
+    if (partial) {
+        return partial.unsent.map(index => events[index]);
+    }
+    return isUndeliverable(error) ? [] : events;
+}
+
+function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
@@ -0,0 +1,717 @@
+import {
+    NexusAbortError,
+    NexusAuthError,
+    NexusCircuitOpenError,
+    NexusError,
+    NexusHttpError,
+    NexusNetworkError,
+    NexusQueueFullError,
+    NexusRejectedError,
+    NexusTimeoutError,
+    NexusValidationError,
+    PartialSend,
+} from './errors';
+import { validateEvent, validateEvents } from './validation';
+import { EventEncoding, contentType, encodeEvents, eventByteLength } from './encoding';
+import { IdempotencyOptions, ResolvedIdempotencyOptions, resolveIdempotencyOptions, stampEventId } from './ids';
+import { RetryOptions, ResolvedRetryOptions, computeBackoff, resolveRetryOptions, sleep } from './retry';
+import { Throttle, ThrottleState } from './throttle';
+import { BatchingOptions, CloseSummary, EventBuffer, EventSizer, byteLength, splitBatches } from './batcher';
+import { QueueOverflowPolicy, RequestQueue, mapWithConcurrency } from './concurrency';
+import { EventRejection, RequestResult, SendResult, aggregateResults, readRequestResult } from './result';
+import { DeadLetterHandler, DeadLetterSink, isUndeliverable, resolveDeadLetterHandler } from './deadletter';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitBreakerState } from './breaker';
+import { RateLimiter, RateLimiterState, RateLimitOptions } from './ratelimit';
+import { EndpointHealth, EndpointPool, FailoverOptions } from './endpoints';
+import { FetchTransport, Transport, TransportRequest, toResponse } from './transport';
+import { BeaconOptions, queueBeacon, resolveBeaconUrl } from './beacon';
+import { CompressionOptions, ResolvedCompressionOptions, canCompress, compress, resolveCompressionOptions, shouldCompress } from './compression';
+import type { NexusEvent } from './index';
+
+export interface NexusClientOptions {
+    /** Endpoint URL, or several in order of preference to fail over between. */
+    url: string | string[];
+    token: string;
+    /** Shorthand for a `FetchTransport` using this `fetch`. */
+    fetch?: typeof fetch;
+    /** Sends the HTTP requests. Defaults to a `FetchTransport`; takes precedence over `fetch`. */
+    transport?: Transport;
+    retry?: RetryOptions | boolean;
+    batching?: BatchingOptions;
+    /** Abort a single request attempt after this long. */
+    timeoutMs?: number;
+    /** Stamp events with ids and send an `Idempotency-Key` per batch. */
+    idempotency?: IdempotencyOptions | boolean;
+    /** Allow `navigator.sendBeacon` delivery, which authenticates by URL because it cannot set headers. */
+    beacon?: BeaconOptions | boolean;
+    /** Compress request bodies above a size threshold and set `Content-Encoding`. */
+    compression?: CompressionOptions | boolean;
+    /** Split a `send` into requests whose JSON body stays within this many bytes. */
+    maxBatchBytes?: number;
+    /** Split a `send` into requests of at most this many events. */
+    maxBatchEvents?: number;
+    /** Most requests a split `send` runs at once. Defaults to 4. */
+    batchConcurrency?: number;
+    /** Receives events that can never be delivered: invalid, refused with a 4xx, or rejected individually. */
+    onDeadLetter?: DeadLetterHandler | DeadLetterSink;
+    /** Stop calling an endpoint that keeps failing, and probe it again after a pause. */
+    circuitBreaker?: CircuitBreakerOptions | boolean;
+    /** Queue requests so they stay within a request and event rate shared by every `send` on this client. */
+    rateLimit?: RateLimitOptions;
+    /** Most requests in flight at once across all sends; the rest wait in a queue. Unlimited by default. */
+    maxConcurrentRequests?: number;
+    /** Most requests waiting for a slot before `queueOverflow` applies. Unlimited by default. */
+    maxQueuedRequests?: number;
+    /** What happens to a request that finds the queue full. Defaults to `block`. */
+    queueOverflow?: QueueOverflowPolicy;
+    /** How failing endpoints are taken out of rotation when `url` lists several. */
+    failover?: FailoverOptions;
+    /** Request body format. Defaults to `json`, a JSON array; `ndjson` sends one event per line. */
+    encoding?: EventEncoding;
+}
+
+export interface SendOptions {
+    signal?: AbortSignal;
+    /** Overrides the client's `timeoutMs` for this call. */
+    timeoutMs?: number;
+    /** Key to send instead of a generated one; also works without `idempotency` on the client. */
+    idempotencyKey?: string;
+    /** Use `fetch` keepalive so the request outlives the page; batches are split to fit the 64KB budget. */
+    keepalive?: boolean;
+    /** Queue with `navigator.sendBeacon`, falling back to keepalive `fetch`. Requires `beacon` on the client. */
+    beacon?: boolean;
+    /** Overrides the client's `maxBatchBytes` for this call. */
+    maxBatchBytes?: number;
+    /** Overrides the client's `maxBatchEvents` for this call. */
+    maxBatchEvents?: number;
+    /** Overrides the client's `batchConcurrency` for this call. */
+    batchConcurrency?: number;
+    /**
+     * Set to false to fail with `NexusCircuitOpenError` rather than hand the events to the circuit
+     * breaker's `fallback` while the circuit is open, e.g. when the fallback is what is sending them.
+     */
+    fallback?: boolean;
+}
+
+export type FlushOptions = Pick<SendOptions, 'keepalive' | 'beacon'>;
+
+export interface CloseOptions {
+    /** Give up on undelivered events after this long. Waits indefinitely when omitted. */
+    timeoutMs?: number;
+}
+
+/** Browsers cap the total body size of in-flight keepalive requests (and beacons) at 64KB. */
+const KEEPALIVE_MAX_BYTES = 64 * 1024;
+
+export class NexusClient {
+    private readonly endpoints: EndpointPool;
+    private readonly token: string;
+    private readonly transport: Transport;
+    private readonly encoding: EventEncoding;
+    private readonly sizeOf: EventSizer;
+    private readonly retry: ResolvedRetryOptions;
+    private readonly timeoutMs?: number;
+    private readonly idempotency?: ResolvedIdempotencyOptions;
+    private readonly beaconUrl?: () => string;
+    private readonly compression?: ResolvedCompressionOptions;
+    private readonly maxBatchBytes?: number;
+    private readonly maxBatchEvents?: number;
+    private readonly batchConcurrency: number;
+    private readonly onDeadLetter?: DeadLetterHandler;
+    private readonly breaker?: CircuitBreaker;
+    private readonly limiter?: RateLimiter;
+    private readonly requests?: RequestQueue;
+    private readonly throttle = new Throttle();
+    private readonly buffer: EventBuffer;
+    private closing?: Promise<CloseSummary>;
+
+    constructor(options: NexusClientOptions) {
+        const urls = Array.isArray(options.url) ? options.url : [options.url];
+        this.endpoints = new EndpointPool(urls, options.failover);
+        this.token = options.token;
+        this.transport = options.transport ?? new FetchTransport(options.fetch || fetch);
+        this.encoding = options.encoding ?? 'json';
+        const encoding = this.encoding;
+        this.sizeOf = (event, index) => eventByteLength(event, encoding, index);
+        this.retry = resolveRetryOptions(options.retry);
+        this.timeoutMs = options.timeoutMs;
+        this.idempotency = resolveIdempotencyOptions(options.idempotency);
+        this.beaconUrl = resolveBeaconUrl(options.beacon, urls[0], options.token);
+        this.compression = resolveCompressionOptions(options.compression);
+        this.maxBatchBytes = options.maxBatchBytes;
+        this.maxBatchEvents = options.maxBatchEvents;
+        this.batchConcurrency = Math.max(1, options.batchConcurrency ?? 4);
+        this.onDeadLetter = resolveDeadLetterHandler(options.onDeadLetter);
+        if (options.circuitBreaker) {
+            this.breaker = new CircuitBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker);
+        }
+        if (options.rateLimit) {
+            this.limiter = new RateLimiter(options.rateLimit);
+        }
+        if (options.maxConcurrentRequests !== undefined) {
+            this.requests = new RequestQueue(
+                Math.max(1, options.maxConcurrentRequests),
+                Math.max(0, options.maxQueuedRequests ?? Infinity),
+                options.queueOverflow,
+            );
+        }
+        this.buffer = new EventBuffer(events => this.deliver(events), options.batching, isUndeliverable, this.sizeOf);
+
+        if (urls.length === 0 || urls.some(url => !url) || !this.token) {
+            throw new Error("NexusClient requires both `url` and `token`.");
+        }
+    }
+
+    get closed(): boolean {
+        return this.closing !== undefined;
+    }
+
+    async send(events: NexusEvent | NexusEvent[], options?: SendOptions): Promise<SendResult> {
+        this.assertOpen();
+        return this.deliver(Array.isArray(events) ? events : [events], options);
+    }
+
+    track(event: NexusEvent): void {
+        this.assertOpen();
+        this.deadLetterOnFailure([event], () => validateEvent(event));
+        // Stamped here so a batch that is re-queued after a failure keeps its event ids.
+        const stamped = this.idempotency ? stampEventId(event, this.idempotency) : event;
+        // Sizing serializes the event, which fails for circular references or bigints in JSON.
+        this.deadLetterOnFailure([event], () => this.buffer.add(stamped));
+    }
+
+    /**
+     * Gives events the ids `send` would, for callers that store events and send them again later:
+     * every replay then carries the same ids. Returns the events as they are without `idempotency`.
+     */
+    stampEventIds(events: NexusEvent[]): NexusEvent[] {
+        const idempotency = this.idempotency;
+        return idempotency ? events.map(event => stampEventId(event, idempotency)) : events;
+    }
+
+    /** A new batch key to store alongside events and pass as `idempotencyKey` on every replay; `undefined` without `idempotency`. */
+    idempotencyKey(): string | undefined {
+        return this.idempotency?.generateId();
+    }
+
+    /** With `keepalive` or `beacon`, sends everything buffered at once in unload-safe requests. */
+    async flush(options: FlushOptions = {}): Promise<void> {
+        if (!options.keepalive && !options.beacon) {
+            return this.buffer.flush();
+        }
+        return this.buffer.sendAll(events => this.deliver(events, options));
+    }
+
+    close(options: CloseOptions = {}): Promise<CloseSummary> {
+        if (!this.closing) {
+            this.closing = this.buffer.drainAll(options.timeoutMs);
+        }
+        return this.closing;
+    }
+
+    getThrottleState(): ThrottleState {
+        return this.throttle.state();
+    }
+
+    /** `undefined` when the client has no circuit breaker. */
+    getCircuitState(): CircuitBreakerState | undefined {
+        return this.breaker?.state();
+    }
+
+    /** `undefined` when the client has no `rateLimit`. */
+    getRateLimiterState(): RateLimiterState | undefined {
+        return this.limiter?.state();
+    }
+
+    /** Health of each endpoint, in order of preference. */
+    getEndpointHealth(): EndpointHealth[] {
+        return this.endpoints.health();
+    }
+
+    private assertOpen(): void {
+        if (this.closing) {
+            throw new Error("NexusClient is closed.");
+        }
+    }
+
+    private async deliver(payload: NexusEvent[], options: SendOptions = {}): Promise<SendResult> {
+        this.deadLetterOnFailure(payload, () => validateEvents(payload));
+        const events = this.stampEventIds(payload);
+        const started = Date.now();
+        if (this.breaker?.isRejecting()) {
+            return this.divert(events, options, started);
+        }
+
+        const maxBatchBytes = options.maxBatchBytes ?? this.maxBatchBytes;
+        const maxBatchEvents = options.maxBatchEvents ?? this.maxBatchEvents;
+        if (options.keepalive || options.beacon) {
+            return this.deliverOnUnload(events, options, maxBatchEvents, started);
+        }
+
+        // An empty send still makes one request, as it always has.
+        const batches = events.length > 0
+            ? this.deadLetterOnFailure(events, () => splitBatches(events, maxBatchBytes, maxBatchEvents, this.sizeOf))
+            : [events];
+        const indices = batchIndices(batches);
+        const failures: Array<{ index: number; error: unknown }> = [];
+        const results = await mapWithConcurrency(batches, options.batchConcurrency ?? this.batchConcurrency, async (batch, index) => {
+            // A transient failure would most likely fail the remaining requests too, so they are not started.
+            if (failures.some(failure => !isUndeliverable(failure.error))) {
+                return undefined;
+            }
+            try {
+                return await this.deliverBatch(batch, indices[index], options, batchKey(options.idempotencyKey, index, batches.length));
+            } catch (error) {
+                // A batch refused for good is dead-lettered on its own; the others still go out.
+                failures.push({ index, error });
+                return undefined;
+            }
+        });
+        if (failures.length === 0) {
+            return aggregateResults(results.flatMap(result => result ?? []), Date.now() - started);
+        }
+        throw failedSend(failures, results, indices);
+    }
+
+    /**
+     * Sends one request, halving the batch and trying again when the endpoint answers 413.
+     * `indices` holds each event's position in the array passed to `send`.
+     */
+    private async deliverBatch(
+        events: NexusEvent[],
+        indices: number[],
+        options: SendOptions,
+        idempotencyKey?: string,
+        round = 1,
+    ): Promise<RequestResult[]> {
+        // Encoding is also where an event that cannot be serialized turns into a validation error.
+        const body = this.deadLetterOnFailure(events, () => encodeEvents(events, this.encoding, indices), indices);
+        const headers = this.headers(idempotencyKey);
+        let result: RequestResult;
+        try {
+            const started = Date.now();
+            const { response, attempts } = await this.attempt(await this.encode(body, headers), headers, options, events.length);
+            result = await readRequestResult(response, events, indices, attempts, Date.now() - started, this.retry.retryOnStatus);
+        } catch (error) {
+            if (!(error instanceof NexusHttpError && error.status === 413 && events.length > 1)) {
+                if (isUndeliverable(error)) {
+                    this.onDeadLetter?.(events, error);
+                }
+                throw error;
+            }
+            const middle = Math.ceil(events.length / 2);
+            // Nothing was accepted, so the halves go out under new keys rather than the rejected one.
+            const first = await this.deliverBatch(events.slice(0, middle), indices.slice(0, middle), options, batchKey(idempotencyKey, 0, 2), round)
+                .catch(failure => {
+                    throw withPartial(failure, [], indices.slice(0, middle), indices.slice(middle));
+                });
+            const second = await this.deliverBatch(events.slice(middle), indices.slice(middle), options, batchKey(idempotencyKey, 1, 2), round)
+                .catch(failure => {
+                    throw withPartial(failure, first, indices.slice(middle));
+                });
+            return [...first, ...second];
+        }
+        return this.settleRejections(result, options, idempotencyKey, round);
+    }
+
+    /** Dead-letters permanent rejections and resends transient ones while retry rounds remain. */
+    private async settleRejections(
+        result: RequestResult,
+        options: SendOptions,
+        idempotencyKey: string | undefined,
+        round: number,
+    ): Promise<RequestResult[]> {
+        const permanent = result.rejected.filter(rejection => !rejection.retryable);
+        const transient = result.rejected.filter(rejection => rejection.retryable);
+        if (permanent.length > 0) {
+            this.deadLetter(permanent);
+        }
+        if (transient.length === 0 || round >= this.retry.maxAttempts) {
+            return [result];
+        }
+
+        await this.backoff(round, options.signal);
+        // The follow-up request reports on the retried events from here on.
+        result.rejected = permanent;
+        const positions = transient.map(rejection => rejection.index);
+        const retried = await this.deliverBatch(
+            transient.map(rejection => rejection.event),
+            positions,
+            options,
+            idempotencyKey && `${idempotencyKey}-retry-${round}`,
+            round + 1,
+        ).catch(failure => {
+            // The first request delivered everything else, so only the retried events can be unsent.
+            throw withPartial(failure, [result], positions);
+        });
+        return [result, ...retried];
+    }
+
+    /** `indices` holds each event's position in the send, which validation errors refer to, when `events` is only part of it. */
+    private deadLetterOnFailure<T>(events: NexusEvent[], check: () => T, indices?: number[]): T {
+        try {
+            return check();
+        } catch (error) {
+            if (isUndeliverable(error)) {
+                const positions = indices ?? events.map((_, index) => index);
+                const offending = new Set(deadLetteredPositions(error, positions));
+                this.onDeadLetter?.(events.filter((_, index) => offending.has(positions[index])), error);
+            }
+            throw error;
+        }
+    }
+
+    private deadLetter(rejections: EventRejection[]): void {
+        const reasons = [...new Set(rejections.map(rejection => rejection.reason))].join('; ');
+        const error = new NexusRejectedError(`${rejections.length} event(s) rejected: ${reasons}`, { rejections });
+        this.onDeadLetter?.(rejections.map(rejection => rejection.event), error);
+    }
+
+    /** Compresses the body once, up front, so retries reuse the same bytes. */
+    private async encode(body: string | Uint8Array, headers: Record<string, string>): Promise<string | Uint8Array> {
+        const compression = this.compression;
+        if (!compression || !shouldCompress(body, compression) || !canCompress()) {
+            return body;
+        }
+        headers['Content-Encoding'] = compression.algorithm;
+        return compress(body, compression.algorithm);
+    }
+
+    private async deliverOnUnload(
+        events: NexusEvent[],
+        options: SendOptions,
+        maxBatchEvents: number | undefined,
+        started: number,
+    ): Promise<SendResult> {
+        // Never compressed: beacons cannot set `Content-Encoding` and an unloading page has no time for async work.
+        const maxBytes = Math.min(KEEPALIVE_MAX_BYTES, options.maxBatchBytes ?? this.maxBatchBytes ?? Infinity);
+        const batches = events.length > 0
+            ? this.deadLetterOnFailure(events, () => splitBatches(events, maxBytes, maxBatchEvents, this.sizeOf))
+            : [events];
+        const indices = batchIndices(batches);
+        const bodies = batches.map((batch, index) => encodeEvents(batch, this.encoding, indices[index]));
+        const results: Array<RequestResult[] | undefined> = [];
+        const failures: Array<{ index: number; error: unknown }> = [];
+        // The 64KB budget covers every keepalive request in flight, so the batches go out in waves that fit it
+        // together. The first wave is dispatched at once: nothing after an await is guaranteed to run once the page is gone.
+        for (const wave of keepaliveWaves(bodies)) {
+            await Promise.all(wave.map(async index => {
+                const batch = batches[index];
+                try {
+                    if (options.beacon && this.beaconUrl && queueBeacon(this.beaconUrl(), bodies[index])) {
+                        // Beacons expose no response, so report the hand-off to the browser as accepted.
+                        const accepted = new Response(null, { status: 202, statusText: 'Accepted' });
+                        results[index] = [await readRequestResult(accepted, batch, indices[index], 1, Date.now() - started)];
+                        return;
+                    }
+                    const key = batchKey(options.idempotencyKey, index, batches.length);
+                    const { response, attempts } = await this.attempt(bodies[index], this.headers(key), { ...options, keepalive: true }, batch.length);
+                    results[index] = [await readRequestResult(response, batch, indices[index], attempts, Date.now() - started)];
+                } catch (error) {
+                    if (isUndeliverable(error)) {
+                        this.onDeadLetter?.(batch, error);
+                    }
+                    failures.push({ index, error });
+                }
+            }));
+            if (failures.some(failure => !isUndeliverable(failure.error))) {
+                break;
+            }
+        }
+        if (failures.length === 0) {
+            return aggregateResults(results.flatMap(result => result ?? []), Date.now() - started);
+        }
+        throw failedSend(failures, results, indices);
+    }
+
+    /** Hands the events to the breaker's fallback while the circuit is open, or fails fast without one. */
+    private async divert(events: NexusEvent[], options: SendOptions, started: number): Promise<SendResult> {
+        const fallback = options.fallback === false ? undefined : this.breaker!.fallback;
+        if (!fallback) {
+            throw this.circuitOpenError(0);
+        }
+        await fallback(events);
+        // Nothing reached the endpoint, so report the hand-off to the fallback as accepted.
+        const accepted = new Response(null, { status: 202, statusText: 'Accepted' });
+        const result = await readRequestResult(accepted, events, events.map((_, index) => index), 0, Date.now() - started);
+        return aggregateResults([result], Date.now() - started);
+    }
+
+    private circuitOpenError(attempts: number): NexusCircuitOpenError {
+        const { retryAt } = this.breaker!.state();
+        return new NexusCircuitOpenError('Failed to send event(s): circuit breaker is open', { attempts, retryAt });
+    }
+
+    private headers(idempotencyKey?: string): Record<string, string> {
+        const idempotency = this.idempotency;
+        const headers: Record<string, string> = {
+            'Content-Type': contentType(this.encoding),
+            'Authorization': `Bearer ${this.token}`,
+        };
+        if (idempotency || idempotencyKey) {
+            // Generated once per batch so every retry carries the same key.
+            headers[idempotency?.header ?? 'Idempotency-Key'] = idempotencyKey ?? idempotency!.generateId();
+        }
+        return headers;
+    }
+
+    private async attempt(
+        body: string | Uint8Array,
+        headers: Record<string, string>,
+        options: SendOptions,
+        eventCount: number,
+    ): Promise<{ response: Response; attempts: number }> {
+        const { signal } = options;
+        const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+        // Endpoints that failed in this round; failing over to the next one does not use up a retry.
+        const tried = new Set<string>();
+        let failovers = 0;
+
+        for (let attempt = 1; ; attempt++) {
+            // A failover request carries on with the permission the round started with.
+            if (tried.size === 0 && this.breaker && !this.breaker.tryAcquire()) {
+                throw this.circuitOpenError(attempt - 1);
+            }
+            const url = this.endpoints.select(tried);
+            let failure: NexusError;
+            try {
+                // An unloading page cannot wait for capacity or sit out a server-requested pause,
+                // so unload requests skip the limiter, the throttle and the queue.
+                if (!options.keepalive) {
+                    await this.limiter?.acquire(eventCount, signal);
+                    await this.throttle.wait(signal);
+                }
+                const post = () => this.post(url, body, headers, timeoutMs, signal, options.keepalive);
+                const response = await (this.requests && !options.keepalive ? this.requests.run(post, signal) : post());
+                this.throttle.observe(response);
+
+                if (response.ok) {
+                    this.endpoints.recordSuccess(url);
+                    this.breaker?.recordSuccess();
+                    return { response, attempts: attempt };
+                }
+                failure = await this.httpError(response, attempt);
+            } catch (error) {
+                if (signal?.aborted) {
+                    this.breaker?.release();
+                    throw new NexusAbortError('Failed to send event(s): aborted', { attempts: attempt, cause: signal.reason });
+                }
+                if (error instanceof NexusQueueFullError) {
+                    this.breaker?.release();
+                    throw error;
+                }
+                failure = this.requestError(error, attempt, timeoutMs);
+            }
+            if (isEndpointDown(failure)) {
+                this.endpoints.recordFailure(url);
+                tried.add(url);
+                if (this.endpoints.canFailOver(tried)) {
+                    failovers++;
+                    continue;
+                }
+                this.breaker?.recordFailure();
+            } else {
+                // Any answer other than a server error shows the endpoint is up.
+                this.endpoints.recordSuccess(url);
+                this.breaker?.recordSuccess();
+            }
+            tried.clear();
+
+            if (failure.isRetryable && attempt - failovers < this.retry.maxAttempts) {
+                await this.backoff(attempt - failovers, signal);
+                continue;
+            }
+            throw failure;
+        }
+    }
+
+    private async httpError(response: Response, attempt: number): Promise<NexusHttpError> {
+        const body = await response.text().catch(() => '');
+        const details = {
+            attempts: attempt,
+            isRetryable: this.retry.retryOnStatus.includes(response.status),
+            status: response.status,
+            statusText: response.statusText,
+            body,
+            headers: response.headers,
+            retryAfterMs: this.throttle.state().waitMs || undefined,
+        };
+        const message = `Failed to send event(s): ${response.status} ${response.statusText} - ${body}`;
+
+        return response.status === 401 || response.status === 403
+            ? new NexusAuthError(message, details)
+            : new NexusHttpError(message, details);
+    }
+
+    private requestError(error: unknown, attempt: number, timeoutMs: number | undefined): NexusError {
+        if (error instanceof DeadlineExceeded) {
+            return new NexusTimeoutError(`Failed to send event(s): timed out after ${timeoutMs}ms`, {
+                attempts: attempt,
+                timeoutMs: timeoutMs!,
+                isRetryable: this.retry.retryOnTimeout,
+            });
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return new NexusNetworkError(`Failed to send event(s): ${message}`, {
+            attempts: attempt,
+            cause: error,
+            isRetryable: this.retry.retryOnNetworkError(error),
+        });
+    }
+
+    private async backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+        try {
+            await sleep(computeBackoff(attempt, this.retry), signal);
+        } catch {
+            throw new NexusAbortError('Failed to send event(s): aborted', { attempts: attempt, cause: signal?.reason });
+        }
+    }
+
+    private async post(
+        url: string,
+        body: string | Uint8Array,
+        headers: Record<string, string>,
+        timeoutMs: number | undefined,
+        signal?: AbortSignal,
+        keepalive?: boolean,
+    ): Promise<Response> {
+        const request: TransportRequest = { url, headers, body };
+        if (keepalive) {
+            request.keepalive = true;
+        }
+
+        if (!timeoutMs && !signal) {
+            return toResponse(await this.transport.send(request));
+        }
+
+        if (signal?.aborted) {
+            throw signal.reason;
+        }
+
+        const controller = new AbortController();
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let onAbort: (() => void) | undefined;
+
+        // Races the transport so one that ignores `signal` cannot hang the send.
+        const aborted = new Promise<never>((_, reject) => {
+            onAbort = () => {
+                controller.abort(signal?.reason);
+                reject(signal?.reason);
+            };
+            signal?.addEventListener('abort', onAbort);
+            if (timeoutMs) {
+                timer = setTimeout(() => {
+                    controller.abort();
+                    reject(new DeadlineExceeded());
+                }, timeoutMs);
+            }
+        });
+
+        try {
+            const sending = this.transport.send({ ...request, signal: controller.signal });
+            const response = toResponse(await Promise.race([sending, aborted]));
+            // Results and errors read the body later, so it has to arrive before the deadline too.
+            // Reading a clone buffers it for them; a body that fails to arrive reads as empty, as before.
+            if (typeof response.clone === 'function') {
+                await Promise.race([response.clone().arrayBuffer().catch(() => undefined), aborted]);
+            }
+            return response;
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort!);
+        }
+    }
+}
+
+class DeadlineExceeded extends Error {}
+
+/** Derives a distinct key per request from a caller-supplied key; generated keys are already unique. */
+function batchKey(key: string | undefined, index: number, count: number): string | undefined {
+    return key && count > 1 ? `${key}-${index + 1}` : key;
+}
+
+function isEndpointDown(error: NexusError): boolean {
+    return error instanceof NexusNetworkError
+        || error instanceof NexusTimeoutError
+        || (error instanceof NexusHttpError && error.status >= 500);
+}
+
+/** Positions of the events a dead-lettering error covers: only the offending event when validation names one. */
+function deadLetteredPositions(error: unknown, positions: number[]): number[] {
+    return error instanceof NexusValidationError && error.index !== undefined ? [error.index] : positions;
+}
+
+/**
+ * The error a split send fails with, reporting which events its requests delivered and which can be sent again.
+ * `results` and `indices` are per batch; a batch with neither a result nor a failure never started.
+ */
+function failedSend(failures: Array<{ index: number; error: unknown }>, results: Array<RequestResult[] | undefined>, indices: number[][]): unknown {
+    // A failed batch may still have delivered some of its events before it gave up.
+    const failed = (index: number) => failures.find(failure => failure.index === index)?.error;
+    const partial = {
+        results: indices.flatMap((_, index) => results[index] ?? partialOf(failed(index))?.results ?? []),
+        unsent: indices.flatMap((positions, index) => {
+            if (results[index]) {
+                return [];
+            }
+            const error = failed(index);
+            // A batch that never started is unsent as a whole.
+            return error === undefined ? positions : unsentPositions(error, positions);
+        }),
+    };
+    const { error } = failures[0];
+    if (error instanceof NexusError) {
+        error.partial = partial;
+    }
+    return error;
+}
+
+function partialOf(error: unknown): PartialSend | undefined {
+    return error instanceof NexusError ? error.partial : undefined;
+}
+
+/** Positions among `positions` that a failed request left neither delivered nor dead-lettered. */
+function unsentPositions(error: unknown, positions: number[]): number[] {
+    const partial = partialOf(error);
+    if (partial) {
+        return partial.unsent;
+    }
+    const deadLettered = new Set(isUndeliverable(error) ? deadLetteredPositions(error, positions) : []);
+    return positions.filter(position => !deadLettered.has(position));
+}
+
+/**
+ * Records on `error` what a batch got done before it failed: the `results` of its earlier requests,
+ * the failed request's `positions`, and the `skipped` positions of requests it never made.
+ */
+function withPartial(error: unknown, results: RequestResult[], positions: number[], skipped: number[] = []): unknown {
+    if (error instanceof NexusError) {
+        error.partial = {
+            results: [...results, ...error.partial?.results ?? []],
+            unsent: [...unsentPositions(error, positions), ...skipped],
+        };
+    }
+    return error;
+}
+
+/** Groups consecutive batches, by index, into waves whose bodies fit the keepalive budget together. */
+function keepaliveWaves(bodies: Array<string | Uint8Array>): number[][] {
+    const waves: number[][] = [];
+    let bytes = Infinity;
+    bodies.forEach((body, index) => {
+        const size = typeof body === 'string' ? byteLength(body) : body.length;
+        if (bytes + size > KEEPALIVE_MAX_BYTES) {
+            waves.push([]);
+            bytes = 0;
+        }
+        waves[waves.length - 1].push(index);
+        bytes += size;
+    });
+    return waves;
+}
+
+/** Position of every event of each batch in the array passed to `send`. */
+function batchIndices(batches: NexusEvent[][]): number[][] {
+    let offset = 0;
+    return batches.map(batch => batch.map(() => offset++));
+}
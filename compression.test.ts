@@ -0,0 +1,61 @@
+import { gunzipSync, inflateSync } from 'zlib';
+import { canCompress, compress, registerCompressor, resolveCompressionOptions, shouldCompress } from './compression';
+
+describe('resolveCompressionOptions', () => {
+  it('should disable compression when no options are given', () => {
+    expect(resolveCompressionOptions(undefined)).toBeUndefined();
+    expect(resolveCompressionOptions(false)).toBeUndefined();
+  });
+
+  it('should apply defaults when compression is enabled', () => {
+    expect(resolveCompressionOptions(true)).toEqual({ algorithm: 'gzip', thresholdBytes: 1024 });
+  });
+});
+
+describe('shouldCompress', () => {
+  it('should skip bodies below the threshold', () => {
+    const options = resolveCompressionOptions({ thresholdBytes: 10 })!;
+
+    expect(shouldCompress('x'.repeat(9), options)).toBe(false);
+    expect(shouldCompress('x'.repeat(10), options)).toBe(true);
+  });
+});
+
+describe('compress', () => {
+  const body = JSON.stringify([{ type: 'event', payload: 'x'.repeat(1000) }]);
+
+  it('should gzip with CompressionStream', async () => {
+    expect(gunzipSync(await compress(body, 'gzip')).toString()).toBe(body);
+  });
+
+  it('should deflate with CompressionStream', async () => {
+    expect(inflateSync(await compress(body, 'deflate')).toString()).toBe(body);
+  });
+
+  describe('without CompressionStream', () => {
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'CompressionStream')!;
+
+    beforeEach(() => {
+      delete (globalThis as any).CompressionStream;
+    });
+
+    afterEach(() => {
+      Object.defineProperty(globalThis, 'CompressionStream', descriptor);
+      registerCompressor(undefined);
+    });
+
+    it('should fall back to the registered compressor', async () => {
+      const compressor = jest.fn(async () => new Uint8Array([1, 2, 3]));
+      registerCompressor(compressor);
+
+      expect(canCompress()).toBe(true);
+      expect(await compress(body, 'deflate')).toEqual(new Uint8Array([1, 2, 3]));
+      expect(compressor).toHaveBeenCalledWith(body, 'deflate');
+    });
+
+    it('should not compress without a registered compressor', async () => {
+      expect(canCompress()).toBe(false);
+      await expect(compress(body, 'gzip')).rejects.toThrow('No compressor is available');
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import { byteLength } from './batcher';
+
+export type CompressionAlgorithm = 'gzip' | 'deflate';
+
+export interface CompressionOptions {
+    /** Defaults to `gzip`. */
+    algorithm?: CompressionAlgorithm;
+    /** Bodies smaller than this are sent uncompressed. Defaults to 1024 bytes. */
+    thresholdBytes?: number;
+}
+
+export interface ResolvedCompressionOptions {
+    algorithm: CompressionAlgorithm;
+    thresholdBytes: number;
+}
+
+export function resolveCompressionOptions(options: CompressionOptions | boolean | undefined): ResolvedCompressionOptions | undefined {
+    if (!options) {
+        return undefined;
+    }
+    const resolved = options === true ? {} : options;
+    return {
+        algorithm: resolved.algorithm ?? 'gzip',
+        thresholdBytes: Math.max(0, resolved.thresholdBytes ?? 1024),
+    };
+}
+
+/** Whether a body of this size should be compressed. */
+export function shouldCompress(body: string | Uint8Array, options: ResolvedCompressionOptions): boolean {
+    return (typeof body === 'string' ? byteLength(body) : body.length) >= options.thresholdBytes;
+}
+
+/** Compresses bodies where `CompressionStream` is missing. */
+export type Compressor = (body: string | Uint8Array, algorithm: CompressionAlgorithm) => Promise<Uint8Array>;
+
+let fallbackCompressor: Compressor | undefined;
+
+/**
+ * Sets the compressor used where `CompressionStream` is missing. Importing
+ * `nexus-typescript-client/node` registers one for older Node versions.
+ */
+export function registerCompressor(compressor: Compressor | undefined): void {
+    fallbackCompressor = compressor;
+}
+
+/** Whether `compress` can run here; bodies are sent uncompressed otherwise. */
+export function canCompress(): boolean {
+    return typeof CompressionStream !== 'undefined' || fallbackCompressor !== undefined;
+}
+
+/** Compresses with `CompressionStream` where available (browsers, Workers, Node 18+), otherwise the registered compressor. */
+export async function compress(body: string | Uint8Array, algorithm: CompressionAlgorithm): Promise<Uint8Array> {
+    if (typeof CompressionStream !== 'undefined') {
+        const stream = new Blob([body]).stream().pipeThrough(new CompressionStream(algorithm));
+        return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+    if (!fallbackCompressor) {
+        throw new Error("No compressor is available: CompressionStream is missing and none was registered.");
+    }
+    return fallbackCompressor(body, algorithm);
+}
@@ -0,0 +1,138 @@
+import { RequestQueue, mapWithConcurrency } from './concurrency';
+import { NexusQueueFullError } from './errors';
+
+const deferred = () => {
+  let resolve!: () => void;
+  const promise = new Promise<void>(done => { resolve = done; });
+  return { promise, resolve };
+};
+
+describe('mapWithConcurrency', () => {
+  it('should resolve with results in input order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await new Promise(resolve => setTimeout(resolve, ms));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('should never run more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }, (_, index) => index), 3, async () => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should stop starting tasks after a failure and reject with it', async () => {
+    const gate = deferred();
+    const started: number[] = [];
+
+    const result = mapWithConcurrency([0, 1, 2, 3], 2, async (item) => {
+      started.push(item);
+      if (item === 0) {
+        throw new Error('boom');
+      }
+      await gate.promise;
+    });
+    gate.resolve();
+
+    await expect(result).rejects.toThrow('boom');
+    expect(started).toEqual([0, 1]);
+  });
+});
+
+describe('RequestQueue', () => {
+  // Starts one task per label on the queue; each runs until its gate is opened.
+  const start = (queue: RequestQueue, labels: string[], started: string[], signal?: AbortSignal) => {
+    const gates = labels.map(() => deferred());
+    const runs = labels.map((label, index) => queue.run(async () => {
+      started.push(label);
+      await gates[index].promise;
+      return label;
+    }, signal));
+    runs.forEach(run => run.catch(() => undefined));
+    return { gates, runs };
+  };
+
+  const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+  it('should run queued tasks in order as slots free up', async () => {
+    const started: string[] = [];
+    const { gates, runs } = start(new RequestQueue(2), ['a', 'b', 'c', 'd'], started);
+    await settle();
+    expect(started).toEqual(['a', 'b']);
+
+    gates[1].resolve();
+    await settle();
+    expect(started).toEqual(['a', 'b', 'c']);
+
+    gates.forEach(gate => gate.resolve());
+    await expect(Promise.all(runs)).resolves.toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should throw when the queue is full under the throw policy', async () => {
+    const started: string[] = [];
+    const { runs } = start(new RequestQueue(1, 1, 'throw'), ['a', 'b', 'c'], started);
+
+    const error = await runs[2].catch(e => e);
+
+    expect(error).toBeInstanceOf(NexusQueueFullError);
+    expect(error).toMatchObject({ dropped: false, isRetryable: true });
+  });
+
+  it('should drop the newest task under drop-newest', async () => {
+    const started: string[] = [];
+    const { gates, runs } = start(new RequestQueue(1, 1, 'drop-newest'), ['a', 'b', 'c'], started);
+
+    await expect(runs[2]).rejects.toMatchObject({ dropped: true, isRetryable: false });
+    gates.forEach(gate => gate.resolve());
+    await Promise.all(runs.slice(0, 2));
+    expect(started).toEqual(['a', 'b']);
+  });
+
+  it('should drop the oldest queued task under drop-oldest', async () => {
+    const started: string[] = [];
+    const { gates, runs } = start(new RequestQueue(1, 1, 'drop-oldest'), ['a', 'b', 'c'], started);
+
+    await expect(runs[1]).rejects.toBeInstanceOf(NexusQueueFullError);
+    gates.forEach(gate => gate.resolve());
+    await Promise.all([runs[0], runs[2]]);
+    expect(started).toEqual(['a', 'c']);
+  });
+
+  it('should hold tasks beyond the queue under the block policy', async () => {
+    const started: string[] = [];
+    const { gates, runs } = start(new RequestQueue(1, 0, 'block'), ['a', 'b', 'c'], started);
+    await settle();
+    expect(started).toEqual(['a']);
+
+    gates.forEach(gate => gate.resolve());
+    await expect(Promise.all(runs)).resolves.toEqual(['a', 'b', 'c']);
+    expect(started).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should remove an aborted task from the queue', async () => {
+    const started: string[] = [];
+    const queue = new RequestQueue(1);
+    const first = start(queue, ['a'], started);
+    const controller = new AbortController();
+    const second = start(queue, ['b'], started, controller.signal);
+    const third = start(queue, ['c'], started);
+
+    controller.abort(new Error('cancelled'));
+    await expect(second.runs[0]).rejects.toThrow('cancelled');
+
+    first.gates[0].resolve();
+    third.gates[0].resolve();
+    await third.runs[0];
+    expect(started).toEqual(['a', 'c']);
+  });
+});
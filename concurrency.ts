@@ -0,0 +1,152 @@
+import { NexusQueueFullError } from './errors';
+
+/**
+ * Runs `task` over `items` with at most `limit` in flight, resolving with results in input order.
+ * Stops starting new tasks after the first failure and rejects with it once in-flight tasks settle.
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T, index: number) => Promise<R>): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let failed = false;
+    let failure: unknown;
+
+    const worker = async () => {
+        while (!failed && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await task(items[index], index);
+            } catch (error) {
+                if (!failed) {
+                    failed = true;
+                    failure = error;
+                }
+            }
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(Math.max(1, limit), items.length) }, worker));
+    if (failed) {
+        throw failure;
+    }
+    return results;
+}
+
+/** What a full request queue does with one more request. */
+export type QueueOverflowPolicy = 'block' | 'drop-oldest' | 'drop-newest' | 'throw';
+
+interface Waiter {
+    resolve: () => void;
+    reject: (error: unknown) => void;
+}
+
+/**
+ * Runs at most `maxConcurrent` tasks at once and queues the rest in arrival order. Beyond
+ * `maxQueued` waiting tasks, `overflow` decides: `block` waits for room in the queue, the
+ * drop policies discard the oldest or newest task, and `throw` rejects the newest one.
+ */
+export class RequestQueue {
+    private active = 0;
+    private readonly queued: Waiter[] = [];
+    private readonly blocked: Waiter[] = [];
+
+    constructor(
+        private readonly maxConcurrent: number,
+        private readonly maxQueued = Infinity,
+        private readonly overflow: QueueOverflowPolicy = 'block',
+    ) {}
+
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        if (signal?.aborted) {
+            return Promise.reject(signal.reason);
+        }
+        if (this.active < this.maxConcurrent) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                remove(this.queued, waiter);
+                remove(this.blocked, waiter);
+                this.unblock();
+                waiter.reject(signal!.reason);
+            };
+            const waiter: Waiter = {
+                resolve: () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve();
+                },
+                reject: error => {
+                    signal?.removeEventListener('abort', onAbort);
+                    reject(error);
+                },
+            };
+            signal?.addEventListener('abort', onAbort, { once: true });
+            this.enqueue(waiter);
+        });
+    }
+
+    private enqueue(waiter: Waiter): void {
+        if (this.queued.length < this.maxQueued) {
+            this.queued.push(waiter);
+            return;
+        }
+        switch (this.overflow) {
+            case 'block':
+                this.blocked.push(waiter);
+                return;
+            case 'drop-oldest': {
+                const oldest = this.queued.shift();
+                if (oldest) {
+                    this.queued.push(waiter);
+                }
+                (oldest ?? waiter).reject(queueFullError(true));
+                return;
+            }
+            case 'drop-newest':
+                waiter.reject(queueFullError(true));
+                return;
+            default:
+                waiter.reject(queueFullError(false));
+        }
+    }
+
+    private release(): void {
+        // The slot passes straight to the next waiter, so `active` only drops when nobody is waiting.
+        const next = this.queued.shift() ?? this.blocked.shift();
+        if (next) {
+            this.unblock();
+            next.resolve();
+        } else {
+            this.active--;
+        }
+    }
+
+    private unblock(): void {
+        while (this.blocked.length > 0 && this.queued.length < this.maxQueued) {
+            this.queued.push(this.blocked.shift()!);
+        }
+    }
+}
+
+function remove(waiters: Waiter[], waiter: Waiter): void {
+    const index = waiters.indexOf(waiter);
+    if (index !== -1) {
+        waiters.splice(index, 1);
+    }
+}
+
+function queueFullError(dropped: boolean): NexusQueueFullError {
+    return dropped
+        ? new NexusQueueFullError('Failed to send event(s): dropped from the full request queue', { dropped })
+        : new NexusQueueFullError('Failed to send event(s): request queue is full', { dropped });
+}
@@ -0,0 +1,86 @@
+import {
+  ConsoleDeadLetterSink,
+  MemoryDeadLetterSink,
+  isUndeliverable,
+  resolveDeadLetterHandler
+} from './deadletter';
+import { NexusAuthError, NexusHttpError, NexusNetworkError, NexusValidationError } from './errors';
+
+const httpError = (status: number, isRetryable = false) =>
+  new NexusHttpError(`HTTP ${status}`, { status, statusText: '', body: '', isRetryable });
+
+describe('isUndeliverable', () => {
+  it('should treat invalid events and non-retryable 4xx responses as undeliverable', () => {
+    expect(isUndeliverable(new NexusValidationError('bad'))).toBe(true);
+    expect(isUndeliverable(httpError(400))).toBe(true);
+    expect(isUndeliverable(httpError(422))).toBe(true);
+  });
+
+  it('should leave transient and auth failures deliverable', () => {
+    expect(isUndeliverable(httpError(429, true))).toBe(false);
+    expect(isUndeliverable(httpError(500))).toBe(false);
+    expect(isUndeliverable(new NexusAuthError('denied', { status: 401, statusText: '', body: '' }))).toBe(false);
+    expect(isUndeliverable(new NexusNetworkError('reset'))).toBe(false);
+    expect(isUndeliverable(new Error('other'))).toBe(false);
+  });
+});
+
+describe('resolveDeadLetterHandler', () => {
+  it('should pass handlers through and adapt sinks', () => {
+    const handler = jest.fn();
+    const sink = { write: jest.fn() };
+    const error = new NexusValidationError('bad');
+
+    expect(resolveDeadLetterHandler(undefined)).toBeUndefined();
+    expect(resolveDeadLetterHandler(handler)).toBe(handler);
+    resolveDeadLetterHandler(sink)!([{ type: 'a' }], error);
+
+    expect(sink.write).toHaveBeenCalledWith([{ type: 'a' }], error);
+  });
+
+  it('should swallow sink failures', async () => {
+    const handler = resolveDeadLetterHandler({ write: () => Promise.reject(new Error('disk full')) })!;
+
+    expect(() => handler([{ type: 'a' }], new NexusValidationError('bad'))).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+
+  it('should swallow sinks that throw synchronously', async () => {
+    const handler = resolveDeadLetterHandler({ write: () => { throw new TypeError('Converting circular structure to JSON'); } })!;
+
+    expect(() => handler([{ type: 'a' }], new NexusValidationError('bad'))).not.toThrow();
+    await new Promise(resolve => setTimeout(resolve, 0));
+  });
+});
+
+describe('MemoryDeadLetterSink', () => {
+  it('should keep the most recent entries up to its capacity', () => {
+    const sink = new MemoryDeadLetterSink(2);
+    const error = new NexusValidationError('bad');
+
+    sink.write([{ type: 'first' }], error);
+    sink.write([{ type: 'second' }], error);
+    sink.write([{ type: 'third' }], error);
+
+    expect(sink.entries.map(entry => entry.events[0].type)).toEqual(['second', 'third']);
+    expect(sink.entries[0]).toMatchObject({ error, at: expect.any(Number) });
+  });
+
+  it('should hand over and clear entries on drain', () => {
+    const sink = new MemoryDeadLetterSink();
+    sink.write([{ type: 'a' }], new NexusValidationError('bad'));
+
+    expect(sink.drain()).toHaveLength(1);
+    expect(sink.entries).toHaveLength(0);
+  });
+});
+
+describe('ConsoleDeadLetterSink', () => {
+  it('should log the events with the reason', () => {
+    const logger = { error: jest.fn() };
+
+    new ConsoleDeadLetterSink(logger).write([{ type: 'a' }], new NexusValidationError('bad event'));
+
+    expect(logger.error).toHaveBeenCalledWith('Nexus dead-lettered 1 event(s): bad event', [{ type: 'a' }]);
+  });
+});
@@ -0,0 +1,78 @@
+import { NexusAuthError, NexusError, NexusHttpError, NexusQueueFullError, NexusValidationError } from './errors';
+import type { NexusEvent } from './index';
+
+export type DeadLetterHandler = (events: NexusEvent[], error: NexusError) => void;
+
+/** Somewhere to keep events the pipeline will never accept, for inspection or a later replay. */
+export interface DeadLetterSink {
+    write(events: NexusEvent[], error: NexusError): void | Promise<void>;
+}
+
+export interface DeadLetterEntry {
+    events: NexusEvent[];
+    error: NexusError;
+    /** When the events were dead-lettered, in epoch milliseconds. */
+    at: number;
+}
+
+/**
+ * Whether resending the events can never succeed: they are invalid, the endpoint
+ * refused them with a non-retryable 4xx, or a full request queue dropped them. Auth
+ * failures are excluded, since fixing the token makes the same events deliverable.
+ */
+export function isUndeliverable(error: unknown): error is NexusError {
+    if (error instanceof NexusValidationError || (error instanceof NexusQueueFullError && error.dropped)) {
+        return true;
+    }
+    return error instanceof NexusHttpError
+        && !(error instanceof NexusAuthError)
+        && !error.isRetryable
+        && error.status >= 400
+        && error.status < 500;
+}
+
+export function resolveDeadLetterHandler(option: DeadLetterHandler | DeadLetterSink | undefined): DeadLetterHandler | undefined {
+    if (!option || typeof option === 'function') {
+        return option;
+    }
+    return (events, error) => {
+        // A failing sink must not turn a delivery failure into a different one, whether it throws or rejects.
+        new Promise<void>(resolve => resolve(option.write(events, error))).catch(() => undefined);
+    };
+}
+
+/** Keeps the most recent dead letters in memory, discarding the oldest beyond `capacity`. */
+export class MemoryDeadLetterSink implements DeadLetterSink {
+    private readonly capacity: number;
+    private buffer: DeadLetterEntry[] = [];
+
+    constructor(capacity = 1000) {
+        this.capacity = Math.max(1, capacity);
+    }
+
+    get entries(): readonly DeadLetterEntry[] {
+        return this.buffer;
+    }
+
+    write(events: NexusEvent[], error: NexusError): void {
+        this.buffer.push({ events, error, at: Date.now() });
+        if (this.buffer.length > this.capacity) {
+            this.buffer.splice(0, this.buffer.length - this.capacity);
+        }
+    }
+
+    /** Removes and returns every entry, e.g. to replay the events. */
+    drain(): DeadLetterEntry[] {
+        const entries = this.buffer;
+        this.buffer = [];
+        return entries;
+    }
+}
+
+export class ConsoleDeadLetterSink implements DeadLetterSink {
+    constructor(private readonly logger: Pick<Console, 'error'> = console) {}
+
+    write(events: NexusEvent[], error: NexusError): void {
+        this.logger.error(`Nexus dead-lettered ${events.length} event(s): ${error.message}`, events);
+    }
+}
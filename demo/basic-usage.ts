@@ -22,7 +22,7 @@ async function sendSimpleEvent() {
   console.log('Sending a simple event...');
   
   try {
-    const response = await client.send({
+    const { response } = await client.send({
       type: 'test.event',
       message: 'Hello from Nexus TypeScript Client!'
     });
@@ -50,7 +50,7 @@ async function trackUserAction(userId: string, action: string) {
   };
   
   try {
-    const response = await client.send(event);
+    const { response } = await client.send(event);
     console.log('✅ User action tracked:', response.status);
   } catch (error) {
     console.error('❌ Failed to track user action:', error);
@@ -79,7 +79,7 @@ async function sendSystemMetrics() {
   };
   
   try {
-    const response = await client.send(metrics);
+    const { response } = await client.send(metrics);
     console.log('✅ System metrics sent:', response.status);
   } catch (error) {
     console.error('❌ Failed to send metrics:', error);
@@ -109,7 +109,7 @@ async function sendBatchEvents() {
   ];
   
   try {
-    const response = await client.send(events);
+    const { response } = await client.send(events);
     console.log(`✅ Batch of ${events.length} events sent:`, response.status);
   } catch (error) {
     console.error('❌ Failed to send batch events:', error);
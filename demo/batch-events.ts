@@ -55,7 +55,7 @@ async function simpleBatchSend() {
   ];
   
   try {
-    const response = await client.send(events);
+    const { response } = await client.send(events);
     console.log(`✅ Sent ${events.length} events successfully`);
     console.log(`   Response status: ${response.status}\n`);
   } catch (error) {
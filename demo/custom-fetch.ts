@@ -101,20 +101,16 @@ function createRetryFetch(maxRetries = 3, retryDelay = 1000): typeof fetch {
 
 /**
  * Example 4: Custom fetch with compression support
+ *
+ * Request bodies are compressed by the client itself:
+ *   new NexusClient({ url, token, compression: { algorithm: 'gzip', thresholdBytes: 1024 } })
+ * A custom fetch only needs to ask for compressed responses.
  */
 function createCompressionFetch(): typeof fetch {
   return async (url, options) => {
-    // Add compression headers
     const headers = new Headers(options?.headers);
     headers.set('Accept-Encoding', 'gzip, deflate, br');
-    
-    // For request body compression (if supported by server)
-    if (options?.body && typeof options.body === 'string') {
-      // In a real implementation, you would compress the body here
-      // For demo purposes, we'll just add the header
-      headers.set('Content-Encoding', 'gzip');
-    }
-    
+
     return fetch(url, {
       ...options,
       headers
@@ -6,75 +6,68 @@
  */
 
 import { NexusClient, NexusEvent } from '../index';
+import { withNexus } from '../workers';
 
 /**
  * Cloudflare Workers Example
  * 
- * Deploy this as a Cloudflare Worker to track edge requests and responses
+ * Deploy this as a Cloudflare Worker to track edge requests and responses.
+ * `withNexus` collects every event tracked during the request and sends them
+ * as a single batch through `ctx.waitUntil` once the handler has returned.
  */
 export const cloudflareWorker = {
-  async fetch(
-    request: Request,
-    env: { NEXUS_ENDPOINT: string; NEXUS_TOKEN: string },
-    ctx: { waitUntil: (promise: Promise<any>) => void }
-  ): Promise<Response> {
-    const client = new NexusClient({
-      url: env.NEXUS_ENDPOINT,
-      token: env.NEXUS_TOKEN
-    });
-
-    const requestId = crypto.randomUUID();
-    const startTime = Date.now();
-
-    // Track incoming request
-    const requestEvent: NexusEvent = {
-      type: 'edge.request',
-      requestId,
-      method: request.method,
-      url: request.url,
-      headers: Object.fromEntries(request.headers.entries()),
-      cf: request.cf, // Cloudflare-specific data
-      timestamp: new Date().toISOString()
-    };
-
-    // Use waitUntil to ensure events are sent even after response
-    ctx.waitUntil(client.send(requestEvent));
-
-    try {
-      // Your application logic here
-      const response = await handleRequest(request);
-      
-      // Track response
-      const responseEvent: NexusEvent = {
-        type: 'edge.response',
-        requestId,
-        status: response.status,
-        duration: Date.now() - startTime,
-        timestamp: new Date().toISOString()
-      };
-      
-      ctx.waitUntil(client.send(responseEvent));
-      
-      return response;
-    } catch (error: any) {
-      // Track errors
-      const errorEvent: NexusEvent = {
-        type: 'edge.error',
+  fetch: withNexus<{ NEXUS_ENDPOINT: string; NEXUS_TOKEN: string }>(
+    {
+      client: (env) => ({ url: env.NEXUS_ENDPOINT, token: env.NEXUS_TOKEN }),
+      onError: (error, events) => console.error(`Failed to send ${events.length} events:`, error)
+    },
+    async (request, env, ctx, nexus) => {
+      const requestId = crypto.randomUUID();
+      const startTime = Date.now();
+
+      // Track incoming request
+      nexus.track({
+        type: 'edge.request',
         requestId,
-        error: {
-          message: error.message,
-          stack: error.stack,
-          name: error.name
-        },
-        duration: Date.now() - startTime,
+        method: request.method,
+        url: request.url,
+        headers: Object.fromEntries(request.headers.entries()),
+        cf: request.cf, // Cloudflare-specific data
         timestamp: new Date().toISOString()
-      };
-      
-      ctx.waitUntil(client.send(errorEvent));
-      
-      return new Response('Internal Server Error', { status: 500 });
+      });
+
+      try {
+        // Your application logic here
+        const response = await handleRequest(request);
+
+        // Track response
+        nexus.track({
+          type: 'edge.response',
+          requestId,
+          status: response.status,
+          duration: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        });
+
+        return response;
+      } catch (error: any) {
+        // Track errors
+        nexus.track({
+          type: 'edge.error',
+          requestId,
+          error: {
+            message: error.message,
+            stack: error.stack,
+            name: error.name
+          },
+          duration: Date.now() - startTime,
+          timestamp: new Date().toISOString()
+        });
+
+        return new Response('Internal Server Error', { status: 500 });
+      }
     }
-  }
+  )
 };
 
 // Helper function for Cloudflare Workers
@@ -5,40 +5,24 @@
  * retry logic, fallback mechanisms, validation, and error recovery.
  */
 
-import { NexusClient, NexusEvent } from '../index';
+import {
+  NexusClient,
+  NexusEvent,
+  NexusError,
+  NexusHttpError,
+  NexusNetworkError,
+  NexusValidationError as ValidationError
+} from '../index';
 import * as fs from 'fs';
 import * as path from 'path';
 
 // Configuration
 const client = new NexusClient({
   url: process.env.NEXUS_ENDPOINT || 'https://api.example.com/events',
-  token: process.env.NEXUS_TOKEN || 'your-api-token-here'
+  token: process.env.NEXUS_TOKEN || 'your-api-token-here',
+  circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 }
 });
 
-/**
- * Custom error types for better error handling
- */
-class NexusError extends Error {
-  constructor(message: string, public code: string, public details?: any) {
-    super(message);
-    this.name = 'NexusError';
-  }
-}
-
-class ValidationError extends NexusError {
-  constructor(message: string, details?: any) {
-    super(message, 'VALIDATION_ERROR', details);
-    this.name = 'ValidationError';
-  }
-}
-
-class NetworkError extends NexusError {
-  constructor(message: string, details?: any) {
-    super(message, 'NETWORK_ERROR', details);
-    this.name = 'NetworkError';
-  }
-}
-
 /**
  * Event validator to catch errors before sending
  */
@@ -56,20 +40,18 @@ class EventValidator {
 
     // Check for common mistakes
     if (event.type.includes(' ')) {
-      throw new ValidationError('Event type should not contain spaces', {
-        type: event.type,
-        suggestion: event.type.replace(/\s+/g, '.')
-      });
+      throw new ValidationError(
+        `Event type should not contain spaces (try "${event.type.replace(/\s+/g, '.')}")`
+      );
     }
 
     // Check timestamp format if provided
     if ('timestamp' in event && event.timestamp) {
       const date = new Date(event.timestamp as string);
       if (isNaN(date.getTime())) {
-        throw new ValidationError('Invalid timestamp format', {
-          timestamp: event.timestamp,
-          suggestion: new Date().toISOString()
-        });
+        throw new ValidationError(
+          `Invalid timestamp format: ${event.timestamp} (expected e.g. ${new Date().toISOString()})`
+        );
       }
     }
 
@@ -97,11 +79,8 @@ class EventValidator {
     events.forEach((event, index) => {
       try {
         EventValidator.validate(event);
-      } catch (error) {
-        throw new ValidationError(`Invalid event at index ${index}: ${error.message}`, {
-          index,
-          event
-        });
+      } catch (error: any) {
+        throw new ValidationError(`Invalid event at index ${index}: ${error.message}`, { index });
       }
     });
   }
@@ -123,14 +102,9 @@ async function sendWithRetry(
     maxRetries = 3,
     initialDelay = 1000,
     maxDelay = 30000,
-    shouldRetry = (error) => {
-      // Retry on network errors and 5xx status codes
-      if (error.message?.includes('fetch failed')) return true;
-      if (error.message?.includes('HTTP 5')) return true;
-      if (error.message?.includes('ETIMEDOUT')) return true;
-      if (error.message?.includes('ECONNREFUSED')) return true;
-      return false;
-    }
+    // Network errors, timeouts, 429 and 5xx responses are flagged as retryable;
+    // validation and auth errors never are.
+    shouldRetry = (error) => error instanceof NexusError && error.isRetryable
   } = options;
 
   let lastError: Error | null = null;
@@ -147,16 +121,7 @@ async function sendWithRetry(
         EventValidator.validate(event);
       }
 
-      const response = await client.send(event);
-      
-      // Check response status
-      if (!response.ok) {
-        const errorText = await response.text();
-        throw new NetworkError(`HTTP ${response.status}: ${errorText}`, {
-          status: response.status,
-          response: errorText
-        });
-      }
+      const { response } = await client.send(event);
       
       console.log(`✅ Success on attempt ${attempt}`);
       return response;
@@ -164,16 +129,6 @@ async function sendWithRetry(
       lastError = error;
       console.error(`❌ Attempt ${attempt} failed:`, error.message);
       
-      // Don't retry validation errors
-      if (error instanceof ValidationError) {
-        throw error;
-      }
-      
-      // Don't retry 4xx errors (client errors)
-      if (error.message?.includes('HTTP 4')) {
-        throw error;
-      }
-      
       // Check if we should retry this error
       if (!shouldRetry(error)) {
         throw error;
@@ -190,15 +145,17 @@ async function sendWithRetry(
     }
   }
   
-  throw new NexusError(
-    `Failed after ${maxRetries} attempts: ${lastError?.message}`,
-    'MAX_RETRIES_EXCEEDED',
-    { originalError: lastError }
-  );
+  throw new NexusError(`Failed after ${maxRetries} attempts: ${lastError?.message}`, {
+    attempts: maxRetries,
+    cause: lastError
+  });
 }
 
 /**
  * Fallback storage for failed events
+ *
+ * For production use, prefer `FileOutbox` from 'nexus-typescript-client/node',
+ * which logs events before sending and replays them after a restart.
  */
 class FailedEventStorage {
   private storageDir: string;
@@ -224,7 +181,8 @@ class FailedEventStorage {
       timestamp: new Date().toISOString(),
       error: {
         message: error.message,
-        code: (error as NexusError).code,
+        name: error.name,
+        status: error instanceof NexusHttpError ? error.status : undefined,
         stack: error.stack
       },
       event: Array.isArray(event) ? event : [event]
@@ -295,74 +253,6 @@ class FailedEventStorage {
   }
 }
 
-/**
- * Circuit breaker pattern for handling repeated failures
- */
-class CircuitBreaker {
-  private failures = 0;
-  private lastFailureTime = 0;
-  private state: 'closed' | 'open' | 'half-open' = 'closed';
-  
-  constructor(
-    private options = {
-      failureThreshold: 5,
-      recoveryTimeout: 60000, // 1 minute
-      halfOpenRequests: 3
-    }
-  ) {}
-
-  async execute<T>(operation: () => Promise<T>): Promise<T> {
-    // Check if circuit should be reset
-    if (this.state === 'open') {
-      const timeSinceFailure = Date.now() - this.lastFailureTime;
-      if (timeSinceFailure > this.options.recoveryTimeout) {
-        console.log('🔌 Circuit breaker: Attempting recovery (half-open)');
-        this.state = 'half-open';
-        this.failures = 0;
-      } else {
-        throw new NexusError(
-          'Circuit breaker is open - service unavailable',
-          'CIRCUIT_OPEN',
-          { 
-            failureCount: this.failures,
-            nextRetryIn: this.options.recoveryTimeout - timeSinceFailure 
-          }
-        );
-      }
-    }
-
-    try {
-      const result = await operation();
-      
-      if (this.state === 'half-open') {
-        console.log('✅ Circuit breaker: Recovery successful (closed)');
-        this.state = 'closed';
-        this.failures = 0;
-      }
-      
-      return result;
-    } catch (error) {
-      this.failures++;
-      this.lastFailureTime = Date.now();
-      
-      if (this.failures >= this.options.failureThreshold) {
-        console.error(`⚡ Circuit breaker opened after ${this.failures} failures`);
-        this.state = 'open';
-      }
-      
-      throw error;
-    }
-  }
-  
-  getState() {
-    return {
-      state: this.state,
-      failures: this.failures,
-      lastFailureTime: this.lastFailureTime
-    };
-  }
-}
-
 /**
  * Demonstration functions
  */
@@ -382,9 +272,6 @@ async function demonstrateValidation() {
       console.log(`✅ Valid: ${JSON.stringify(event)}`);
     } catch (error: any) {
       console.log(`❌ Invalid: ${error.message}`);
-      if (error.details) {
-        console.log(`   Details: ${JSON.stringify(error.details)}`);
-      }
     }
   }
 }
@@ -424,21 +311,25 @@ async function demonstrateRetryLogic() {
 
 async function demonstrateCircuitBreaker() {
   console.log('\n🔌 Demonstrating Circuit Breaker...\n');
-  
-  const breaker = new CircuitBreaker({
-    failureThreshold: 3,
-    recoveryTimeout: 5000 // 5 seconds for demo
+
+  // The client's built-in breaker fails fast while the endpoint is down
+  const breakerClient = new NexusClient({
+    url: 'https://api.example.com/events',
+    token: 'demo-token',
+    fetch: async () => new Response('Service unavailable', { status: 503 }),
+    circuitBreaker: {
+      failureThreshold: 3,
+      resetTimeoutMs: 5000, // 5 seconds for demo
+      onStateChange: (state, previous) => console.log(`🔌 Circuit breaker: ${previous} -> ${state}`)
+    }
   });
-  
-  // Simulate failures
+
   for (let i = 0; i < 5; i++) {
     try {
-      await breaker.execute(async () => {
-        throw new Error('Service unavailable');
-      });
+      await breakerClient.send({ type: 'demo.event', attempt: i + 1 });
     } catch (error: any) {
-      console.log(`Attempt ${i + 1}: ${error.message}`);
-      console.log(`Circuit state: ${JSON.stringify(breaker.getState())}`);
+      console.log(`Attempt ${i + 1}: ${error.name}: ${error.message}`);
+      console.log(`Circuit state: ${JSON.stringify(breakerClient.getCircuitState())}`);
     }
     await new Promise(resolve => setTimeout(resolve, 1000));
   }
@@ -458,7 +349,7 @@ async function demonstrateFailedEventStorage() {
   
   await storage.save(
     failedEvent,
-    new NetworkError('Connection refused', { code: 'ECONNREFUSED' })
+    new NexusNetworkError('Connection refused', { cause: { code: 'ECONNREFUSED' } })
   );
   
   console.log('💾 Saved failed event to disk');
@@ -481,21 +372,12 @@ async function demonstrateFailedEventStorage() {
  */
 async function robustEventSending(event: NexusEvent): Promise<void> {
   const storage = new FailedEventStorage();
-  const breaker = new CircuitBreaker();
   
   try {
-    // Use circuit breaker to prevent overwhelming a failing service
-    await breaker.execute(async () => {
-      // Send with retry logic
-      await sendWithRetry(event, {
-        maxRetries: 3,
-        shouldRetry: (error) => {
-          // Custom retry logic
-          if (error.code === 'VALIDATION_ERROR') return false;
-          if (error.message?.includes('HTTP 401')) return false; // Don't retry auth errors
-          return true;
-        }
-      });
+    // The client's circuit breaker fails fast instead of overwhelming a failing service
+    await sendWithRetry(event, {
+      maxRetries: 3,
+      shouldRetry: (error) => error instanceof NexusError && error.isRetryable
     });
     
     console.log('✅ Event sent successfully');
@@ -503,7 +385,7 @@ async function robustEventSending(event: NexusEvent): Promise<void> {
     console.error('❌ Failed to send event:', error.message);
     
     // Save to disk for later retry
-    if (error.code !== 'VALIDATION_ERROR') {
+    if (!(error instanceof ValidationError)) {
       await storage.save(event, error);
       console.log('💾 Event saved for later retry');
     }
@@ -537,9 +419,6 @@ export {
   EventValidator,
   sendWithRetry,
   FailedEventStorage,
-  CircuitBreaker,
   robustEventSending,
-  NexusError,
-  ValidationError,
-  NetworkError
+  ValidationError
 };
\ No newline at end of file
@@ -0,0 +1,55 @@
+import { contentType, encodeEvents, eventByteLength } from './encoding';
+import { NexusValidationError } from './errors';
+import { decodeMessagePack } from './msgpack';
+
+describe('encodeEvents', () => {
+  const events = [{ type: 'a', value: 1 }, { type: 'b', nested: { text: 'line\nbreak' } }];
+
+  it('should encode a JSON array by default', () => {
+    expect(encodeEvents(events, 'json')).toBe(JSON.stringify(events));
+    expect(contentType('json')).toBe('application/json');
+  });
+
+  it('should encode one newline-terminated event per line as NDJSON', () => {
+    const body = encodeEvents(events, 'ndjson') as string;
+
+    expect(body).toBe('{"type":"a","value":1}\n{"type":"b","nested":{"text":"line\\nbreak"}}\n');
+    expect(body.trim().split('\n').map(line => JSON.parse(line))).toEqual(events);
+    expect(contentType('ndjson')).toBe('application/x-ndjson');
+  });
+
+  it('should encode an empty NDJSON batch as an empty body', () => {
+    expect(encodeEvents([], 'ndjson')).toBe('');
+  });
+
+  it('should encode a MessagePack array of events', () => {
+    const body = encodeEvents(events, 'msgpack');
+
+    expect(body).toBeInstanceOf(Uint8Array);
+    expect(decodeMessagePack(body as Uint8Array)).toEqual(events);
+    expect(decodeMessagePack(encodeEvents([], 'msgpack') as Uint8Array)).toEqual([]);
+    expect(contentType('msgpack')).toBe('application/msgpack');
+  });
+
+  it('should measure events in the encoding they are sent in', () => {
+    const event = { type: 'a', value: 1 };
+
+    expect(eventByteLength(event, 'json')).toBe(JSON.stringify(event).length);
+    expect(eventByteLength(event, 'msgpack')).toBeLessThan(JSON.stringify(event).length);
+  });
+
+  it('should name the event that cannot be serialized', () => {
+    const circular: any = { type: 'circular' };
+    circular.self = circular;
+
+    let error: unknown;
+    try {
+      encodeEvents([{ type: 'ok' }, circular], 'ndjson');
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(NexusValidationError);
+    expect(error).toMatchObject({ index: 1 });
+  });
+});
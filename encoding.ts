@@ -0,0 +1,61 @@
+import { byteLength } from './batcher';
+import { NexusValidationError } from './errors';
+import type { NexusEvent } from './index';
+import { encodeArrayHeader, encodeMessagePack } from './msgpack';
+import { serializeEvents } from './validation';
+
+/** Wire format of request bodies: a JSON array, one JSON event per line, or a MessagePack array. */
+export type EventEncoding = 'json' | 'ndjson' | 'msgpack';
+
+const CONTENT_TYPES: Record<EventEncoding, string> = {
+    json: 'application/json',
+    ndjson: 'application/x-ndjson',
+    msgpack: 'application/msgpack',
+};
+
+export function contentType(encoding: EventEncoding): string {
+    return CONTENT_TYPES[encoding];
+}
+
+/** `positions` are the indices errors report for the events, when they are part of a larger send. */
+export function encodeEvents(events: NexusEvent[], encoding: EventEncoding, positions?: number[]): string | Uint8Array {
+    const position = (index: number) => positions ? positions[index] : index;
+    if (encoding === 'json') {
+        try {
+            return serializeEvents(events);
+        } catch (error) {
+            // Find the event at fault, so only it is dead-lettered rather than the whole request.
+            events.forEach((event, index) => serializeEvent(position(index), () => JSON.stringify(event)));
+            throw error;
+        }
+    }
+    if (encoding === 'msgpack') {
+        const parts = [
+            encodeArrayHeader(events.length),
+            ...events.map((event, index) => serializeEvent(position(index), () => encodeMessagePack(event))),
+        ];
+        const body = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+        parts.reduce((offset, part) => {
+            body.set(part, offset);
+            return offset + part.length;
+        }, 0);
+        return body;
+    }
+    // Newline-terminated so bodies can be concatenated and read line by line as they stream in.
+    return events.map((event, index) => serializeEvent(position(index), () => JSON.stringify(event)) + '\n').join('');
+}
+
+/** Encoded size of one event, used to keep batches within their byte limits. */
+export function eventByteLength(event: NexusEvent, encoding: EventEncoding, index?: number): number {
+    return serializeEvent(index, () => encoding === 'msgpack' ? encodeMessagePack(event).length : byteLength(JSON.stringify(event)));
+}
+
+function serializeEvent<T>(index: number | undefined, serialize: () => T): T {
+    try {
+        return serialize();
+    } catch (error) {
+        const where = index === undefined ? 'Event' : `Event at index ${index}`;
+        const message = error instanceof Error ? error.message : String(error);
+        throw new NexusValidationError(`${where} could not be serialized: ${message}`, { index, cause: error });
+    }
+}
@@ -0,0 +1,65 @@
+import { EndpointPool } from './endpoints';
+
+describe('EndpointPool', () => {
+  const primary = 'https://eu.example.com/events';
+  const secondary = 'https://us.example.com/events';
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should prefer endpoints in order', () => {
+    const pool = new EndpointPool([primary, secondary]);
+
+    expect(pool.select()).toBe(primary);
+    expect(pool.select(new Set([primary]))).toBe(secondary);
+  });
+
+  it('should skip an endpoint while it cools down and fail back afterwards', () => {
+    const onEndpointChange = jest.fn();
+    const pool = new EndpointPool([primary, secondary], { cooldownMs: 1000, onEndpointChange });
+
+    pool.recordFailure(primary);
+    expect(pool.select()).toBe(secondary);
+    expect(pool.health()[0]).toEqual({ url: primary, healthy: false, failures: 1, retryAt: Date.now() + 1000 });
+
+    jest.advanceTimersByTime(1000);
+    expect(pool.select()).toBe(primary);
+    expect(onEndpointChange.mock.calls).toEqual([[secondary, primary], [primary, secondary]]);
+  });
+
+  it('should wait for the failure threshold before taking an endpoint out', () => {
+    const pool = new EndpointPool([primary, secondary], { failureThreshold: 2 });
+
+    pool.recordFailure(primary);
+    expect(pool.select()).toBe(primary);
+
+    pool.recordFailure(primary);
+    expect(pool.select()).toBe(secondary);
+  });
+
+  it('should reset the failure count on success', () => {
+    const pool = new EndpointPool([primary, secondary], { failureThreshold: 2 });
+
+    pool.recordFailure(primary);
+    pool.recordSuccess(primary);
+    pool.recordFailure(primary);
+
+    expect(pool.health()[0]).toMatchObject({ healthy: true, failures: 1 });
+  });
+
+  it('should use the endpoint that recovers first when all are down', () => {
+    const pool = new EndpointPool([primary, secondary], { cooldownMs: 1000 });
+
+    pool.recordFailure(primary);
+    jest.advanceTimersByTime(500);
+    pool.recordFailure(secondary);
+
+    expect(pool.canFailOver(new Set())).toBe(false);
+    expect(pool.select()).toBe(primary);
+  });
+});
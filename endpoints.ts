@@ -0,0 +1,101 @@
+export interface FailoverOptions {
+    /** Consecutive failures that take an endpoint out of rotation. Defaults to 1. */
+    failureThreshold?: number;
+    /** How long an endpoint out of rotation is skipped before it is tried again. Defaults to 30000. */
+    cooldownMs?: number;
+    /** Called when requests move to a different endpoint, including failing back to an earlier one. */
+    onEndpointChange?: (url: string, previous: string) => void;
+}
+
+export interface EndpointHealth {
+    url: string;
+    healthy: boolean;
+    /** Consecutive network errors, timeouts and 5xx responses. */
+    failures: number;
+    /** When an unhealthy endpoint is tried again, in epoch milliseconds. */
+    retryAt?: number;
+}
+
+interface Endpoint {
+    url: string;
+    failures: number;
+    retryAt?: number;
+}
+
+/**
+ * Ordered endpoints with per-endpoint health. Requests go to the first endpoint that is not
+ * cooling down, so traffic fails back to an earlier endpoint as soon as its cooldown ends
+ * and it answers again.
+ */
+export class EndpointPool {
+    private readonly failureThreshold: number;
+    private readonly cooldownMs: number;
+    private readonly endpoints: Endpoint[];
+    private active: string;
+
+    constructor(urls: string[], private readonly options: FailoverOptions = {}) {
+        this.failureThreshold = Math.max(1, options.failureThreshold ?? 1);
+        this.cooldownMs = Math.max(0, options.cooldownMs ?? 30_000);
+        this.endpoints = urls.map(url => ({ url, failures: 0 }));
+        this.active = urls[0];
+    }
+
+    get primary(): string {
+        return this.endpoints[0].url;
+    }
+
+    /**
+     * The endpoint for the next request, skipping those in `tried`. When every endpoint is
+     * cooling down, the one that recovers first is used rather than sending nowhere.
+     */
+    select(tried: ReadonlySet<string> = new Set()): string {
+        const now = Date.now();
+        const url = this.endpoints.find(endpoint => !tried.has(endpoint.url) && isAvailable(endpoint, now))?.url
+            ?? this.endpoints.reduce((soonest, endpoint) => (endpoint.retryAt ?? 0) < (soonest.retryAt ?? 0) ? endpoint : soonest).url;
+        if (url !== this.active) {
+            const previous = this.active;
+            this.active = url;
+            this.options.onEndpointChange?.(url, previous);
+        }
+        return url;
+    }
+
+    /** Whether an endpoint not in `tried` is available to fail over to. */
+    canFailOver(tried: ReadonlySet<string>): boolean {
+        const now = Date.now();
+        return this.endpoints.some(endpoint => !tried.has(endpoint.url) && isAvailable(endpoint, now));
+    }
+
+    recordSuccess(url: string): void {
+        const endpoint = this.find(url);
+        if (endpoint) {
+            endpoint.failures = 0;
+            endpoint.retryAt = undefined;
+        }
+    }
+
+    recordFailure(url: string): void {
+        const endpoint = this.find(url);
+        if (endpoint && ++endpoint.failures >= this.failureThreshold) {
+            endpoint.retryAt = Date.now() + this.cooldownMs;
+        }
+    }
+
+    health(): EndpointHealth[] {
+        const now = Date.now();
+        return this.endpoints.map(endpoint => ({
+            url: endpoint.url,
+            healthy: isAvailable(endpoint, now),
+            failures: endpoint.failures,
+            retryAt: isAvailable(endpoint, now) ? undefined : endpoint.retryAt,
+        }));
+    }
+
+    private find(url: string): Endpoint | undefined {
+        return this.endpoints.find(endpoint => endpoint.url === url);
+    }
+}
+
+function isAvailable(endpoint: Endpoint, now: number): boolean {
+    return endpoint.retryAt === undefined || now >= endpoint.retryAt;
+}
@@ -0,0 +1,138 @@
+import type { EventRejection, RequestResult } from './result';
+
+export interface NexusErrorDetails {
+    /** Number of requests made before giving up; 0 when nothing was sent. */
+    attempts?: number;
+    isRetryable?: boolean;
+    cause?: unknown;
+}
+
+/** How far a `send` got before it failed. */
+export interface PartialSend {
+    /** Results of the requests that succeeded. */
+    results: RequestResult[];
+    /**
+     * Positions, in the array passed to `send`, of events that were neither delivered nor
+     * dead-lettered because their request failed transiently or never started. They can be sent again.
+     */
+    unsent: number[];
+}
+
+export class NexusError extends Error {
+    readonly attempts: number;
+    readonly isRetryable: boolean;
+    readonly cause?: unknown;
+    /** Set when `send` fails while delivering its requests, to tell which events can be sent again. */
+    partial?: PartialSend;
+
+    constructor(message: string, details: NexusErrorDetails = {}) {
+        super(message);
+        this.name = 'NexusError';
+        this.attempts = details.attempts ?? 0;
+        this.isRetryable = details.isRetryable ?? false;
+        this.cause = details.cause;
+    }
+}
+
+export interface NexusHttpErrorDetails extends NexusErrorDetails {
+    status: number;
+    statusText: string;
+    body: string;
+    headers?: Headers;
+    retryAfterMs?: number;
+}
+
+export class NexusHttpError extends NexusError {
+    readonly status: number;
+    readonly statusText: string;
+    readonly body: string;
+    readonly headers?: Headers;
+    readonly retryAfterMs?: number;
+
+    constructor(message: string, details: NexusHttpErrorDetails) {
+        super(message, details);
+        this.name = 'NexusHttpError';
+        this.status = details.status;
+        this.statusText = details.statusText;
+        this.body = details.body;
+        this.headers = details.headers;
+        this.retryAfterMs = details.retryAfterMs;
+    }
+}
+
+export class NexusAuthError extends NexusHttpError {
+    constructor(message: string, details: NexusHttpErrorDetails) {
+        super(message, { ...details, isRetryable: false });
+        this.name = 'NexusAuthError';
+    }
+}
+
+export class NexusNetworkError extends NexusError {
+    constructor(message: string, details: NexusErrorDetails = {}) {
+        super(message, { isRetryable: true, ...details });
+        this.name = 'NexusNetworkError';
+    }
+}
+
+export class NexusTimeoutError extends NexusError {
+    readonly timeoutMs: number;
+
+    constructor(message: string, details: NexusErrorDetails & { timeoutMs: number }) {
+        super(message, { isRetryable: true, ...details });
+        this.name = 'NexusTimeoutError';
+        this.timeoutMs = details.timeoutMs;
+    }
+}
+
+export class NexusAbortError extends NexusError {
+    constructor(message: string, details: NexusErrorDetails = {}) {
+        super(message, { ...details, isRetryable: false });
+        this.name = 'NexusAbortError';
+    }
+}
+
+export class NexusValidationError extends NexusError {
+    /** Position of the offending event in the batch, when a single event is at fault. */
+    readonly index?: number;
+
+    constructor(message: string, details: NexusErrorDetails & { index?: number } = {}) {
+        super(message, { ...details, isRetryable: false });
+        this.name = 'NexusValidationError';
+        this.index = details.index;
+    }
+}
+
+/** The endpoint accepted the request but rejected some of its events. */
+export class NexusRejectedError extends NexusError {
+    readonly rejections: EventRejection[];
+
+    constructor(message: string, details: NexusErrorDetails & { rejections: EventRejection[] }) {
+        super(message, { ...details, isRetryable: false });
+        this.name = 'NexusRejectedError';
+        this.rejections = details.rejections;
+    }
+}
+
+/** The circuit breaker is open, so the request was not attempted. */
+export class NexusCircuitOpenError extends NexusError {
+    /** When the circuit lets the next probe through, in epoch milliseconds. */
+    readonly retryAt?: number;
+
+    constructor(message: string, details: NexusErrorDetails & { retryAt?: number } = {}) {
+        super(message, { isRetryable: true, ...details });
+        this.name = 'NexusCircuitOpenError';
+        this.retryAt = details.retryAt;
+    }
+}
+
+/** The request queue of a client with `maxConcurrentRequests` had no room for the request. */
+export class NexusQueueFullError extends NexusError {
+    /** Whether the overflow policy discarded the events, rather than leaving them to the caller. */
+    readonly dropped: boolean;
+
+    constructor(message: string, details: NexusErrorDetails & { dropped: boolean }) {
+        super(message, { isRetryable: !details.dropped, ...details });
+        this.name = 'NexusQueueFullError';
+        this.dropped = details.dropped;
+    }
+}
@@ -0,0 +1,79 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NexusHttpError, NexusValidationError } from './errors';
+import { FileDeadLetterSink } from './filesink';
+
+describe('FileDeadLetterSink', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nexus-deadletter-'));
+    file = path.join(directory, 'nested', 'dead-letters.jsonl');
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should append one JSON line per dead letter', async () => {
+    const sink = new FileDeadLetterSink({ path: file });
+
+    await sink.write([{ type: 'a' }], new NexusValidationError('bad event'));
+    await sink.write([{ type: 'b' }], new NexusHttpError('refused', { status: 400, statusText: 'Bad Request', body: 'nope' }));
+
+    const lines = (await fs.readFile(file, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[1])).toMatchObject({
+      error: { name: 'NexusHttpError', message: 'refused', status: 400, body: 'nope' },
+      events: [{ type: 'b' }]
+    });
+  });
+
+  it('should read records back for replay', async () => {
+    const sink = new FileDeadLetterSink({ path: file });
+    sink.write([{ type: 'a' }], new NexusValidationError('bad event'));
+    sink.write([{ type: 'b' }], new NexusValidationError('bad event'));
+
+    const records = await sink.read();
+
+    expect(records.map(record => record.events[0].type)).toEqual(['a', 'b']);
+    expect(records[0].at).toEqual(expect.any(String));
+  });
+
+  it('should skip a torn last line', async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ at: 'now', error: { name: 'E', message: 'm' }, events: [{ type: 'a' }] }) + '\n{"at":');
+
+    expect(await new FileDeadLetterSink({ path: file }).read()).toHaveLength(1);
+  });
+
+  it('should read an empty list when nothing was written', async () => {
+    expect(await new FileDeadLetterSink({ path: file }).read()).toEqual([]);
+  });
+
+  it('should write events JSON cannot represent', async () => {
+    const circular: Record<string, unknown> = { type: 'loop', shared: { id: 1 } };
+    circular.self = circular;
+    circular.again = circular.shared;
+    const sink = new FileDeadLetterSink({ path: file });
+
+    await sink.write([circular as never, { type: 'big', count: BigInt(10) }], new NexusValidationError('bad'));
+
+    const [record] = await sink.read();
+    expect(record.events).toEqual([
+      { type: 'loop', shared: { id: 1 }, self: '[Circular]', again: { id: 1 } },
+      { type: 'big', count: '10' }
+    ]);
+  });
+
+  it('should report write failures to onError', async () => {
+    await fs.writeFile(path.join(directory, 'nested'), 'not a directory');
+    const onError = jest.fn();
+
+    await new FileDeadLetterSink({ path: file, onError }).write([{ type: 'a' }], new NexusValidationError('bad'));
+
+    expect(onError).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,112 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import type { DeadLetterSink } from './deadletter';
+import type { NexusError } from './errors';
+import type { NexusEvent } from './index';
+
+export interface FileDeadLetterSinkOptions {
+    /** JSONL file the dead letters are appended to. Its directory is created if missing. */
+    path: string;
+    /** Called when an entry cannot be written. */
+    onError?: (error: unknown) => void;
+}
+
+/** One line of the file, with the error reduced to what survives serialization. */
+export interface DeadLetterRecord {
+    at: string;
+    error: {
+        name: string;
+        message: string;
+        status?: number;
+        body?: string;
+        rejections?: Array<{ index: number; reason: string; code?: string }>;
+    };
+    events: NexusEvent[];
+}
+
+export class FileDeadLetterSink implements DeadLetterSink {
+    private writes: Promise<void> = Promise.resolve();
+
+    constructor(private readonly options: FileDeadLetterSinkOptions) {}
+
+    write(events: NexusEvent[], error: NexusError): Promise<void> {
+        let line: string;
+        try {
+            line = JSON.stringify(toRecord(events, error), safeReplacer()) + '\n';
+        } catch (failure) {
+            this.options.onError?.(failure);
+            return this.writes;
+        }
+        // Appends one at a time so concurrent writes never interleave within a line.
+        const write = this.writes.then(async () => {
+            await fs.mkdir(path.dirname(this.options.path), { recursive: true });
+            await fs.appendFile(this.options.path, line, 'utf8');
+        });
+        this.writes = write.catch(failure => this.options.onError?.(failure));
+        return this.writes;
+    }
+
+    /** Reads every record back, skipping a torn last line. Resolves with `[]` when the file does not exist. */
+    async read(): Promise<DeadLetterRecord[]> {
+        await this.writes;
+        let content: string;
+        try {
+            content = await fs.readFile(this.options.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return [];
+            }
+            throw error;
+        }
+
+        const records: DeadLetterRecord[] = [];
+        for (const line of content.split('\n')) {
+            if (!line.trim()) {
+                continue;
+            }
+            try {
+                records.push(JSON.parse(line) as DeadLetterRecord);
+            } catch {
+                // A crash mid-write leaves a partial last line.
+            }
+        }
+        return records;
+    }
+}
+
+function toRecord(events: NexusEvent[], error: NexusError): DeadLetterRecord {
+    const details = error as NexusError & { status?: number; body?: string; rejections?: DeadLetterRecord['error']['rejections'] };
+    return {
+        at: new Date().toISOString(),
+        error: {
+            name: error.name,
+            message: error.message,
+            status: details.status,
+            body: details.body,
+            rejections: details.rejections?.map(({ index, reason, code }) => ({ index, reason, code })),
+        },
+        events,
+    };
+}
+
+/** Writes bigints as strings and circular references as `"[Circular]"`, which `JSON.stringify` would throw on. */
+function safeReplacer(): (this: unknown, key: string, value: unknown) => unknown {
+    const ancestors: unknown[] = [];
+    return function (this: unknown, _key: string, value: unknown) {
+        if (typeof value === 'bigint') {
+            return value.toString();
+        }
+        if (typeof value !== 'object' || value === null) {
+            return value;
+        }
+        // `this` is the object holding `value`, so everything above it on the stack is a sibling's subtree.
+        while (ancestors.length > 0 && ancestors[ancestors.length - 1] !== this) {
+            ancestors.pop();
+        }
+        if (ancestors.includes(value)) {
+            return '[Circular]';
+        }
+        ancestors.push(value);
+        return value;
+    };
+}
@@ -0,0 +1,141 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { HttpTransport } from './httptransport';
+
+describe('HttpTransport', () => {
+  let server: http.Server;
+  let url: string;
+  let agent: http.Agent;
+  let received: Array<{ method?: string; headers: http.IncomingHttpHeaders; body: string; remotePort?: number }>;
+  let reply: (res: http.ServerResponse) => void;
+
+  beforeEach(async () => {
+    received = [];
+    reply = res => res.writeHead(200, { 'Content-Type': 'application/json', 'X-Request-Id': 'req-1' }).end('{"accepted":1}');
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ method: req.method, headers: req.headers, body: Buffer.concat(chunks).toString(), remotePort: req.socket.remotePort });
+        reply(res);
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/events`;
+    agent = new http.Agent({ keepAlive: true });
+  });
+
+  afterEach(async () => {
+    agent.destroy();
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('should POST the body and headers and return the response', async () => {
+    const transport = new HttpTransport({ httpAgent: agent });
+
+    const response = await transport.send({ url, headers: { 'Content-Type': 'application/json', Authorization: 'Bearer t' }, body: '[{"type":"a"}]' });
+
+    expect(received[0]).toMatchObject({
+      method: 'POST',
+      body: '[{"type":"a"}]',
+      headers: expect.objectContaining({ 'authorization': 'Bearer t', 'content-length': '14' })
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers).toMatchObject({ 'x-request-id': 'req-1' });
+    expect(Buffer.from(response.body as Uint8Array).toString()).toBe('{"accepted":1}');
+  });
+
+  it('should send binary bodies as-is', async () => {
+    const transport = new HttpTransport({ httpAgent: agent });
+
+    await transport.send({ url, headers: {}, body: new TextEncoder().encode('bytes') });
+
+    expect(received[0].body).toBe('bytes');
+  });
+
+  it('should resolve with error statuses rather than rejecting', async () => {
+    reply = res => res.writeHead(503, 'Service Unavailable').end('down');
+    const transport = new HttpTransport({ httpAgent: agent });
+
+    const response = await transport.send({ url, headers: {}, body: '[]' });
+
+    expect(response).toMatchObject({ status: 503, statusText: 'Service Unavailable' });
+  });
+
+  it('should reject when the signal aborts', async () => {
+    reply = () => undefined;
+    const transport = new HttpTransport({ httpAgent: agent });
+    const controller = new AbortController();
+
+    const sending = transport.send({ url, headers: {}, body: '[]', signal: controller.signal });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    controller.abort(new Error('cancelled'));
+
+    await expect(sending).rejects.toThrow('cancelled');
+  });
+
+  it('should reject URLs it cannot send to', async () => {
+    await expect(new HttpTransport({ httpAgent: agent }).send({ url: 'ftp://example.com', headers: {}, body: '[]' }))
+      .rejects.toThrow('HttpTransport cannot send to "ftp:" URLs.');
+  });
+
+  describe('connection pooling', () => {
+    let transport: HttpTransport;
+
+    afterEach(() => {
+      transport.destroy();
+    });
+
+    const send = () => transport.send({ url, headers: {}, body: '[]' });
+
+    it('should reuse pooled connections by default', async () => {
+      transport = new HttpTransport();
+
+      await send();
+      await send();
+
+      expect(received[1].remotePort).toBe(received[0].remotePort);
+    });
+
+    it('should open at most maxSockets connections per host', async () => {
+      const open = new Set<number | undefined>();
+      server.on('connection', socket => open.add(socket.remotePort));
+      transport = new HttpTransport({ maxSockets: 2 });
+
+      await Promise.all(Array.from({ length: 6 }, send));
+
+      expect(received).toHaveLength(6);
+      expect(open.size).toBe(2);
+    });
+
+    it('should close connections that stay idle past idleTimeoutMs', async () => {
+      transport = new HttpTransport({ idleTimeoutMs: 20 });
+
+      await send();
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await send();
+
+      expect(received[1].remotePort).not.toBe(received[0].remotePort);
+    });
+
+    it('should open a new connection per request without keep-alive', async () => {
+      transport = new HttpTransport({ keepAlive: false });
+
+      await send();
+      await send();
+
+      expect(received[1].remotePort).not.toBe(received[0].remotePort);
+    });
+
+    it('should leave agents it was given open on destroy', async () => {
+      transport = new HttpTransport({ httpAgent: agent });
+      await send();
+
+      transport.destroy();
+      await send();
+
+      expect(received[1].remotePort).toBe(received[0].remotePort);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import * as http from 'http';
+import * as https from 'https';
+import type { Transport, TransportRequest, TransportResponse } from './transport';
+
+export interface HttpTransportOptions {
+    /** Keep connections open between requests. Defaults to true. */
+    keepAlive?: boolean;
+    /** Most connections per host, in use or not; further requests wait for one. Unlimited by default. */
+    maxSockets?: number;
+    /** Most idle connections kept per host. Defaults to 256. */
+    maxFreeSockets?: number;
+    /**
+     * Close a connection after it has been idle this long. Defaults to 4000, below the
+     * 5 second idle timeout of many servers, so the client never reuses a connection the
+     * server is closing.
+     */
+    idleTimeoutMs?: number;
+    /** Agent for `http:` endpoints, used instead of a pooled one; the options above do not apply to it. */
+    httpAgent?: http.Agent;
+    /** Agent for `https:` endpoints, used instead of a pooled one; the options above do not apply to it. */
+    httpsAgent?: https.Agent;
+}
+
+/**
+ * Sends requests with Node's `http`/`https` modules. Connections are pooled per host and
+ * reused across requests, so high-throughput sends do not pay a TCP and TLS handshake each.
+ */
+export class HttpTransport implements Transport {
+    private readonly httpAgent: http.Agent;
+    private readonly httpsAgent: https.Agent;
+    private readonly owned: http.Agent[] = [];
+
+    constructor(options: HttpTransportOptions = {}) {
+        const pool: https.AgentOptions = {
+            keepAlive: options.keepAlive ?? true,
+            maxSockets: options.maxSockets === undefined ? Infinity : Math.max(1, options.maxSockets),
+            maxFreeSockets: Math.max(1, options.maxFreeSockets ?? 256),
+            // An agent's socket timeout only ever closes idle sockets; requests in flight are left alone.
+            timeout: Math.max(1, options.idleTimeoutMs ?? 4000),
+        };
+        this.httpAgent = options.httpAgent ?? this.own(new http.Agent(pool));
+        this.httpsAgent = options.httpsAgent ?? this.own(new https.Agent(pool));
+    }
+
+    /** Closes the pooled connections, e.g. on shutdown. Agents passed in the options are left alone. */
+    destroy(): void {
+        this.owned.forEach(agent => agent.destroy());
+    }
+
+    send(request: TransportRequest): Promise<TransportResponse> {
+        const url = new URL(request.url);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            return Promise.reject(new Error(`HttpTransport cannot send to "${url.protocol}" URLs.`));
+        }
+        const secure = url.protocol === 'https:';
+        const body = typeof request.body === 'string' ? Buffer.from(request.body) : request.body;
+        const { signal } = request;
+
+        return new Promise((resolve, reject) => {
+            if (signal?.aborted) {
+                reject(signal.reason);
+                return;
+            }
+            const options: http.RequestOptions = {
+                method: 'POST',
+                headers: { ...request.headers, 'Content-Length': String(body.byteLength) },
+                agent: secure ? this.httpsAgent : this.httpAgent,
+            };
+            const onAbort = () => req.destroy(signal!.reason);
+            const fail = (error: unknown) => {
+                signal?.removeEventListener('abort', onAbort);
+                reject(error);
+            };
+
+            const req = (secure ? https : http).request(url, options, res => {
+                const chunks: Buffer[] = [];
+                res.on('data', (chunk: Buffer) => chunks.push(chunk));
+                res.on('error', fail);
+                res.on('end', () => {
+                    signal?.removeEventListener('abort', onAbort);
+                    resolve({
+                        status: res.statusCode ?? 0,
+                        statusText: res.statusMessage,
+                        headers: res.headers,
+                        body: Buffer.concat(chunks),
+                    });
+                });
+            });
+            req.on('error', fail);
+            signal?.addEventListener('abort', onAbort);
+            req.end(body);
+        });
+    }
+
+    private own<T extends http.Agent>(agent: T): T {
+        this.owned.push(agent);
+        return agent;
+    }
+}
@@ -0,0 +1,79 @@
+import { randomId, resolveIdempotencyOptions, stampEventId } from './ids';
+
+describe('randomId', () => {
+  const uuid = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+  it('should return a version 4 UUID', () => {
+    expect(randomId()).toMatch(uuid);
+  });
+
+  describe('without crypto.randomUUID', () => {
+    const original = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+
+    afterEach(() => {
+      Object.defineProperty(globalThis, 'crypto', original);
+    });
+
+    it('should fall back to getRandomValues', () => {
+      const getRandomValues = jest.fn((bytes: Uint8Array) => bytes.fill(0xff));
+      Object.defineProperty(globalThis, 'crypto', { value: { getRandomValues }, configurable: true });
+
+      expect(randomId()).toBe('ffffffff-ffff-4fff-bfff-ffffffffffff');
+      expect(getRandomValues).toHaveBeenCalled();
+    });
+
+    it('should fall back to Math.random without any crypto', () => {
+      Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+
+      expect(randomId()).toMatch(uuid);
+    });
+  });
+
+  it('should return a different id on every call', () => {
+    expect(new Set(Array.from({ length: 100 }, randomId)).size).toBe(100);
+  });
+});
+
+describe('stampEventId', () => {
+  const options = resolveIdempotencyOptions({ generateId: () => 'evt_1' })!;
+
+  it('should add an id without mutating the original event', () => {
+    const event = { type: 'test' };
+
+    expect(stampEventId(event, options)).toEqual({ type: 'test', id: 'evt_1' });
+    expect(event).toEqual({ type: 'test' });
+  });
+
+  it('should keep an existing id', () => {
+    const event = { type: 'test', id: 'mine' };
+
+    expect(stampEventId(event, options)).toBe(event);
+  });
+
+  it('should use the configured field', () => {
+    const custom = resolveIdempotencyOptions({ eventIdField: 'eventId', generateId: () => 'evt_2' })!;
+
+    expect(stampEventId({ type: 'test' }, custom)).toEqual({ type: 'test', eventId: 'evt_2' });
+  });
+
+  it('should leave events alone when event ids are disabled', () => {
+    const event = { type: 'test' };
+
+    expect(stampEventId(event, resolveIdempotencyOptions({ eventIds: false })!)).toBe(event);
+  });
+});
+
+describe('resolveIdempotencyOptions', () => {
+  it('should be disabled by default', () => {
+    expect(resolveIdempotencyOptions(undefined)).toBeUndefined();
+    expect(resolveIdempotencyOptions(false)).toBeUndefined();
+  });
+
+  it('should apply defaults', () => {
+    expect(resolveIdempotencyOptions(true)).toMatchObject({
+      eventIds: true,
+      eventIdField: 'id',
+      header: 'Idempotency-Key'
+    });
+  });
+});
@@ -0,0 +1,61 @@
+import type { NexusEvent } from './index';
+
+export interface IdempotencyOptions {
+    /** Stamp each event that has no id of its own. Defaults to true. */
+    eventIds?: boolean;
+    /** Event property that holds the id. Defaults to `id`. */
+    eventIdField?: string;
+    /** Header carrying the per-batch key. Defaults to `Idempotency-Key`. */
+    header?: string;
+    /** Generates event ids and batch keys. Defaults to a random UUID v4. */
+    generateId?: () => string;
+}
+
+export interface ResolvedIdempotencyOptions {
+    eventIds: boolean;
+    eventIdField: string;
+    header: string;
+    generateId: () => string;
+}
+
+export function resolveIdempotencyOptions(options: IdempotencyOptions | boolean | undefined): ResolvedIdempotencyOptions | undefined {
+    if (!options) {
+        return undefined;
+    }
+    const resolved = options === true ? {} : options;
+    return {
+        eventIds: resolved.eventIds ?? true,
+        eventIdField: resolved.eventIdField ?? 'id',
+        header: resolved.header ?? 'Idempotency-Key',
+        generateId: resolved.generateId ?? randomId,
+    };
+}
+
+export function stampEventId(event: NexusEvent, options: ResolvedIdempotencyOptions): NexusEvent {
+    if (!options.eventIds || event[options.eventIdField] !== undefined) {
+        return event;
+    }
+    return { ...event, [options.eventIdField]: options.generateId() };
+}
+
+export function randomId(): string {
+    const crypto = (globalThis as { crypto?: Crypto }).crypto;
+    if (typeof crypto?.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+
+    const bytes = new Uint8Array(16);
+    if (typeof crypto?.getRandomValues === 'function') {
+        crypto.getRandomValues(bytes);
+    } else {
+        for (let i = 0; i < bytes.length; i++) {
+            bytes[i] = Math.floor(Math.random() * 256);
+        }
+    }
+    // RFC 4122 version 4, variant 1.
+    bytes[6] = (bytes[6] & 0x0f) | 0x40;
+    bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+    const hex = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+    return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
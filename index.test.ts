@@ -1,4 +1,22 @@
-import { NexusClient, NexusEvent, NexusClientOptions } from './index';
+import {
+  NexusClient,
+  NexusEvent,
+  NexusClientOptions,
+  NexusError,
+  NexusHttpError,
+  NexusAuthError,
+  NexusNetworkError,
+  NexusTimeoutError,
+  NexusAbortError,
+  NexusValidationError,
+  NexusRejectedError,
+  MemoryDeadLetterSink,
+  NexusCircuitOpenError,
+  NexusQueueFullError,
+  RequestResult,
+  decodeMessagePack
+} from './index';
+import { gunzipSync, inflateSync } from 'zlib';
 
 describe('NexusClient', () => {
   let mockFetch: jest.Mock;
@@ -70,7 +88,7 @@ describe('NexusClient', () => {
         const event: NexusEvent = { type: 'test.event', data: 'test' };
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(event);
+        const { response } = await client.send(event);
 
         expect(mockFetch).toHaveBeenCalledWith(
           'https://api.example.com/events',
@@ -119,7 +137,7 @@ describe('NexusClient', () => {
         ];
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(events);
+        const { response } = await client.send(events);
 
         expect(mockFetch).toHaveBeenCalledWith(
           'https://api.example.com/events',
@@ -139,7 +157,7 @@ describe('NexusClient', () => {
         const events: NexusEvent[] = [];
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(events);
+        const { response } = await client.send(events);
 
         expect(mockFetch).toHaveBeenCalledWith(
           expect.any(String),
@@ -158,7 +176,7 @@ describe('NexusClient', () => {
         }));
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(events);
+        const { response } = await client.send(events);
 
         expect(mockFetch).toHaveBeenCalledTimes(1);
         expect(response.status).toBe(200);
@@ -167,12 +185,9 @@ describe('NexusClient', () => {
 
     describe('error handling', () => {
       it('should throw error for invalid events parameter', async () => {
-        // The implementation doesn't validate input types, so these will fail when fetch is called
-        // Testing with null will cause a runtime error
-        mockFetch.mockRejectedValue(new TypeError('Cannot read properties of null'));
-        
         await expect(client.send(null as any))
-          .rejects.toThrow();
+          .rejects.toThrow(NexusValidationError);
+        expect(mockFetch).not.toHaveBeenCalled();
       });
 
       it('should handle network errors', async () => {
@@ -223,7 +238,7 @@ describe('NexusClient', () => {
         };
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(event);
+        const { response } = await client.send(event);
         expect(response.status).toBe(200);
       });
 
@@ -234,12 +249,1614 @@ describe('NexusClient', () => {
         };
         mockFetch.mockResolvedValue(mockResponse(200));
 
-        const response = await client.send(event);
+        const { response } = await client.send(event);
         expect(response.status).toBe(200);
       });
     });
   });
 
+  describe('retry', () => {
+    const response = (status: number) =>
+      new Response(status === 200 ? 'OK' : 'Error', { status, statusText: status === 200 ? 'OK' : 'Error' });
+
+    const retryingClient = (retry: NexusClientOptions['retry']) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      retry
+    });
+
+    it('should not retry by default', async () => {
+      mockFetch.mockResolvedValue(response(503));
+
+      await expect(client.send({ type: 'test' })).rejects.toMatchObject({ status: 503, attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should retry retryable status codes until success', async () => {
+      mockFetch
+        .mockResolvedValueOnce(response(503))
+        .mockResolvedValueOnce(response(502))
+        .mockResolvedValueOnce(response(200));
+
+      const result = await retryingClient({ maxAttempts: 3, baseDelayMs: 0 }).send({ type: 'test' });
+
+      expect(result.response.status).toBe(200);
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should surface the attempt count when retries are exhausted', async () => {
+      mockFetch.mockImplementation(async () => response(500));
+
+      const error = await retryingClient({ maxAttempts: 4, baseDelayMs: 0 }).send({ type: 'test' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusHttpError);
+      expect(error.attempts).toBe(4);
+      expect(error.status).toBe(500);
+      expect(error.message).toBe('Failed to send event(s): 500 Error - Error');
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should not retry non-retryable status codes', async () => {
+      mockFetch.mockResolvedValue(response(400));
+
+      await expect(retryingClient({ maxAttempts: 3, baseDelayMs: 0 }).send({ type: 'test' }))
+        .rejects.toMatchObject({ status: 400, attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should honour a custom list of retryable status codes', async () => {
+      mockFetch.mockResolvedValueOnce(response(400)).mockResolvedValueOnce(response(200));
+
+      await retryingClient({ maxAttempts: 2, baseDelayMs: 0, retryOnStatus: [400] }).send({ type: 'test' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should retry network errors and wrap the original cause', async () => {
+      const networkError = new TypeError('fetch failed');
+      mockFetch.mockRejectedValue(networkError);
+
+      const error = await retryingClient({ maxAttempts: 2, baseDelayMs: 0 }).send({ type: 'test' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusNetworkError);
+      expect(error.attempts).toBe(2);
+      expect(error.cause).toBe(networkError);
+      expect(error.message).toBe('Failed to send event(s): fetch failed');
+    });
+
+    it('should skip network retries when disabled', async () => {
+      mockFetch.mockRejectedValue(new TypeError('fetch failed'));
+
+      await expect(retryingClient({ maxAttempts: 3, baseDelayMs: 0, retryOnNetworkError: false }).send({ type: 'test' }))
+        .rejects.toMatchObject({ attempts: 1 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send the same body on every attempt', async () => {
+      mockFetch.mockResolvedValueOnce(response(503)).mockResolvedValueOnce(response(200));
+
+      await retryingClient(true).send({ type: 'test', value: 1 });
+
+      expect(mockFetch.mock.calls[0][1].body).toBe(mockFetch.mock.calls[1][1].body);
+    });
+  });
+
+  describe('throttling', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should expose the throttle state after a 429', async () => {
+      mockFetch.mockResolvedValue(new Response('slow down', { status: 429, headers: { 'Retry-After': '30' } }));
+
+      const error = await client.send({ type: 'test' }).catch(e => e);
+
+      expect(error.retryAfterMs).toBe(30000);
+      expect(client.getThrottleState()).toMatchObject({ throttled: true, waitMs: 30000 });
+    });
+
+    it('should hold back subsequent sends until Retry-After elapses', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 503, headers: { 'Retry-After': '2' } }))
+        .mockResolvedValue(new Response('OK', { status: 200 }));
+
+      await client.send({ type: 'first' }).catch(() => undefined);
+      const pending = client.send({ type: 'second' });
+
+      await jest.advanceTimersByTimeAsync(1999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await pending;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(client.getThrottleState().throttled).toBe(false);
+    });
+
+    it('should wait for Retry-After before retrying', async () => {
+      const retryingClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        retry: { maxAttempts: 2, baseDelayMs: 0 }
+      });
+      mockFetch
+        .mockResolvedValueOnce(new Response(null, { status: 429, headers: { 'Retry-After': '5' } }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+
+      const pending = retryingClient.send({ type: 'test' });
+
+      await jest.advanceTimersByTimeAsync(4999);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1);
+      await expect(pending).resolves.toMatchObject({ response: { status: 200 } });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('timeouts and cancellation', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    const hangingFetch = () => mockFetch.mockImplementation(() => new Promise(() => undefined));
+
+    it('should not pass a signal to fetch when neither timeout nor signal is set', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      await client.send({ type: 'test' });
+
+      expect(mockFetch.mock.calls[0][1].signal).toBeUndefined();
+    });
+
+    it('should fail with NexusTimeoutError once timeoutMs elapses', async () => {
+      hangingFetch();
+      const timeoutClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        timeoutMs: 1000
+      });
+
+      const pending = timeoutClient.send({ type: 'test' }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(1000);
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusTimeoutError);
+      expect(error.timeoutMs).toBe(1000);
+      expect(error.attempts).toBe(1);
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should retry timed out attempts when retries are enabled', async () => {
+      mockFetch
+        .mockImplementationOnce(() => new Promise(() => undefined))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+      const timeoutClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        timeoutMs: 1000,
+        retry: { maxAttempts: 2, baseDelayMs: 0 }
+      });
+
+      const pending = timeoutClient.send({ type: 'test' });
+      await jest.advanceTimersByTimeAsync(1000);
+      await jest.advanceTimersByTimeAsync(1);
+
+      await expect(pending).resolves.toMatchObject({ response: { status: 200 } });
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should time out a response whose body never arrives', async () => {
+      const stalled = () => new Response(new ReadableStream({ start: () => undefined }), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' }
+      });
+      mockFetch.mockImplementation(async () => stalled());
+
+      const pending = client.send({ type: 'test' }, { timeoutMs: 50 }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(50);
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusTimeoutError);
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+
+    it('should cancel reading an error body when the signal aborts', async () => {
+      mockFetch.mockImplementation(async () => new Response(new ReadableStream({ start: () => undefined }), { status: 400 }));
+      const controller = new AbortController();
+
+      const pending = client.send({ type: 'test' }, { signal: controller.signal }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort(new Error('user cancelled'));
+
+      expect(await pending).toBeInstanceOf(NexusAbortError);
+    });
+
+    it('should let a per-call timeout override the client default', async () => {
+      hangingFetch();
+
+      const pending = client.send({ type: 'test' }, { timeoutMs: 50 }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(50);
+
+      expect(await pending).toBeInstanceOf(NexusTimeoutError);
+    });
+
+    it('should cancel the request when the signal aborts', async () => {
+      hangingFetch();
+      const controller = new AbortController();
+
+      const pending = client.send({ type: 'test' }, { signal: controller.signal }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort(new Error('user cancelled'));
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusAbortError);
+      expect(error).not.toBeInstanceOf(NexusTimeoutError);
+      expect(error.cause).toEqual(new Error('user cancelled'));
+      expect(mockFetch.mock.calls[0][1].signal.aborted).toBe(true);
+    });
+
+    it('should not call fetch with an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(client.send({ type: 'test' }, { signal: controller.signal })).rejects.toBeInstanceOf(NexusAbortError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop retrying when aborted during backoff', async () => {
+      mockFetch.mockResolvedValue(new Response('down', { status: 503 }));
+      const retryingClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        retry: { maxAttempts: 5, baseDelayMs: 10000, jitter: 'none' }
+      });
+      const controller = new AbortController();
+
+      const pending = retryingClient.send({ type: 'test' }, { signal: controller.signal }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(0);
+      controller.abort();
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusAbortError);
+      expect(error.attempts).toBe(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(jest.getTimerCount()).toBe(0);
+    });
+  });
+
+  describe('typed errors', () => {
+    it('should throw NexusHttpError with the response details', async () => {
+      mockFetch.mockResolvedValue(new Response('bad payload', {
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        headers: { 'X-Request-Id': 'req_1' }
+      }));
+
+      const error = await client.send({ type: 'test' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusHttpError);
+      expect(error).toBeInstanceOf(NexusError);
+      expect(error).toMatchObject({
+        status: 422,
+        statusText: 'Unprocessable Entity',
+        body: 'bad payload',
+        isRetryable: false,
+        attempts: 1
+      });
+      expect(error.headers.get('x-request-id')).toBe('req_1');
+    });
+
+    it('should mark retryable statuses as retryable', async () => {
+      mockFetch.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+      await expect(client.send({ type: 'test' })).rejects.toMatchObject({ isRetryable: true });
+    });
+
+    it.each([401, 403])('should throw NexusAuthError for %i', async (status) => {
+      mockFetch.mockResolvedValue(new Response('denied', { status }));
+
+      const error = await client.send({ type: 'test' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusAuthError);
+      expect(error).toBeInstanceOf(NexusHttpError);
+      expect(error.isRetryable).toBe(false);
+    });
+
+    it('should not retry auth errors even when the status is listed', async () => {
+      mockFetch.mockResolvedValue(new Response('denied', { status: 401 }));
+      const retryingClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        retry: { maxAttempts: 3, baseDelayMs: 0, retryOnStatus: [401] }
+      });
+
+      await expect(retryingClient.send({ type: 'test' })).rejects.toBeInstanceOf(NexusAuthError);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wrap fetch rejections in NexusNetworkError', async () => {
+      const cause = new TypeError('fetch failed');
+      mockFetch.mockRejectedValue(cause);
+
+      const error = await client.send({ type: 'test' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusNetworkError);
+      expect(error.cause).toBe(cause);
+      expect(error.isRetryable).toBe(true);
+    });
+
+    it.each([
+      [{ type: '' }, 'Event at index 0 must have a non-empty string `type`.'],
+      [{ name: 'missing type' }, 'Event at index 0 must have a non-empty string `type`.'],
+      ['not an event', 'Event at index 0 must be an object.']
+    ])('should reject invalid event %p before sending', async (event, message) => {
+      const error = await client.send([event as any]).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusValidationError);
+      expect(error.message).toBe(message);
+      expect(error).toMatchObject({ index: 0, isRetryable: false, attempts: 0 });
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should report unserializable events as validation errors', async () => {
+      const event: any = { type: 'circular' };
+      event.self = event;
+
+      await expect(client.send(event)).rejects.toBeInstanceOf(NexusValidationError);
+    });
+
+    it('should validate tracked events synchronously', () => {
+      expect(() => client.track({ type: '' })).toThrow(NexusValidationError);
+    });
+  });
+
+  describe('idempotency', () => {
+    const idempotentClient = (idempotency: NexusClientOptions['idempotency'], retry?: NexusClientOptions['retry']) =>
+      new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        idempotency,
+        retry
+      });
+
+    it('should not add ids or headers by default', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      await client.send({ type: 'test' });
+
+      expect(mockFetch.mock.calls[0][1].headers['Idempotency-Key']).toBeUndefined();
+      expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify([{ type: 'test' }]));
+    });
+
+    it('should stamp events and send a batch key', async () => {
+      let next = 0;
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      await idempotentClient({ generateId: () => `id_${++next}` }).send([{ type: 'a' }, { type: 'b', id: 'mine' }]);
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(JSON.parse(init.body)).toEqual([{ type: 'a', id: 'id_1' }, { type: 'b', id: 'mine' }]);
+      expect(init.headers['Idempotency-Key']).toBe('id_2');
+    });
+
+    it('should keep the same key and ids across retries', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('down', { status: 503 }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+
+      await idempotentClient(true, { maxAttempts: 2, baseDelayMs: 0 }).send({ type: 'test' });
+
+      const [first, second] = mockFetch.mock.calls.map(call => call[1]);
+      expect(second.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+      expect(second.body).toBe(first.body);
+    });
+
+    it('should use a different key for each batch', async () => {
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+      const idempotent = idempotentClient(true);
+
+      await idempotent.send({ type: 'one' });
+      await idempotent.send({ type: 'two' });
+
+      const keys = mockFetch.mock.calls.map(call => call[1].headers['Idempotency-Key']);
+      expect(keys[0]).not.toBe(keys[1]);
+    });
+
+    it('should honour a custom header and caller-supplied key', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      await idempotentClient({ header: 'X-Batch-Id', eventIds: false }).send({ type: 'test' }, { idempotencyKey: 'batch-42' });
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['X-Batch-Id']).toBe('batch-42');
+      expect(init.body).toBe(JSON.stringify([{ type: 'test' }]));
+    });
+
+    it('should keep event ids stable when a tracked batch is re-sent', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('down', { status: 500 }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+      const idempotent = idempotentClient(true);
+
+      idempotent.track({ type: 'test' });
+      await idempotent.flush().catch(() => undefined);
+      await idempotent.flush();
+
+      const [first, second] = mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+      expect(second[0].id).toBe(first[0].id);
+    });
+  });
+
+  describe('send result', () => {
+    const json = (body: unknown, headers: Record<string, string> = {}) =>
+      new Response(JSON.stringify(body), { status: 200, headers: { 'Content-Type': 'application/json', ...headers } });
+
+    it('should count every event as accepted when the body says nothing', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('OK', { status: 200 }));
+
+      const result = await client.send([{ type: 'a' }, { type: 'b' }]);
+
+      expect(result).toMatchObject({ accepted: 2, rejected: [], attempts: 1, requestId: undefined });
+      expect(result.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report per-event rejections from the response body', async () => {
+      mockFetch.mockResolvedValueOnce(json({
+        accepted: 1,
+        rejected: [{ index: 1, reason: 'unknown event type', code: 'invalid_type' }],
+        requestId: 'req_123'
+      }));
+
+      const result = await client.send([{ type: 'a' }, { type: 'bogus' }]);
+
+      expect(result.accepted).toBe(1);
+      expect(result.rejected).toEqual([
+        { index: 1, event: { type: 'bogus' }, reason: 'unknown event type', code: 'invalid_type', status: undefined, retryable: false }
+      ]);
+      expect(result.requestId).toBe('req_123');
+    });
+
+    it('should prefer the X-Request-Id header', async () => {
+      mockFetch.mockResolvedValueOnce(json({ requestId: 'from-body' }, { 'X-Request-Id': 'from-header' }));
+
+      expect((await client.send({ type: 'a' })).requestId).toBe('from-header');
+    });
+
+    it('should leave the response body readable', async () => {
+      mockFetch.mockResolvedValueOnce(json({ accepted: 1 }));
+
+      const { response } = await client.send({ type: 'a' });
+
+      expect(await response.json()).toEqual({ accepted: 1 });
+    });
+
+    it('should count attempts including retries', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('down', { status: 503 }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+      const retrying = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        retry: { maxAttempts: 2, baseDelayMs: 0, jitter: 'none' }
+      });
+
+      expect((await retrying.send({ type: 'a' })).attempts).toBe(2);
+    });
+
+    it('should map rejection indices across split requests', async () => {
+      mockFetch
+        .mockResolvedValueOnce(json({ accepted: 2 }))
+        .mockResolvedValueOnce(json({ accepted: 0, errors: [{ index: 0, message: 'too old' }] }));
+
+      const result = await client.send([{ type: 'a' }, { type: 'b' }, { type: 'c' }], { maxBatchEvents: 2, batchConcurrency: 1 });
+
+      expect(result.accepted).toBe(2);
+      expect(result.rejected).toMatchObject([{ index: 2, event: { type: 'c' }, reason: 'too old' }]);
+      expect(result.attempts).toBe(2);
+    });
+  });
+
+  describe('partial failures', () => {
+    const json = (body: unknown, status = 207) =>
+      new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+    const sentTypes = () => mockFetch.mock.calls.map(call => JSON.parse(call[1].body).map((event: NexusEvent) => event.type));
+    let onDeadLetter: jest.Mock;
+
+    const partialClient = (maxAttempts = 3) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      retry: { maxAttempts, baseDelayMs: 0, jitter: 'none' },
+      onDeadLetter
+    });
+
+    beforeEach(() => {
+      onDeadLetter = jest.fn();
+    });
+
+    it('should resend only the transiently rejected events', async () => {
+      mockFetch
+        .mockResolvedValueOnce(json({ rejected: [{ index: 1, status: 503, reason: 'shard unavailable' }] }))
+        .mockResolvedValueOnce(json({ accepted: 1 }, 200));
+
+      const result = await partialClient().send([{ type: 'a' }, { type: 'b' }, { type: 'c' }]);
+
+      expect(sentTypes()).toEqual([['a', 'b', 'c'], ['b']]);
+      expect(result.accepted).toBe(3);
+      expect(result.rejected).toEqual([]);
+      expect(result.delivered).toEqual([{ type: 'a' }, { type: 'c' }, { type: 'b' }]);
+      expect(onDeadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter permanently rejected events without resending them', async () => {
+      mockFetch.mockResolvedValueOnce(json({ rejected: [{ index: 0, status: 400, reason: 'missing userId' }] }));
+
+      const result = await partialClient().send([{ type: 'bad' }, { type: 'good' }]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.delivered).toEqual([{ type: 'good' }]);
+      expect(result.rejected).toMatchObject([{ index: 0, reason: 'missing userId', retryable: false }]);
+      const [events, error] = onDeadLetter.mock.calls[0];
+      expect(events).toEqual([{ type: 'bad' }]);
+      expect(error).toBeInstanceOf(NexusRejectedError);
+      expect(error.rejections).toHaveLength(1);
+      expect(error.message).toBe('1 event(s) rejected: missing userId');
+    });
+
+    it('should report only the resent events as unsent when the follow-up request fails', async () => {
+      mockFetch
+        .mockResolvedValueOnce(json({ rejected: [{ index: 1, retryable: true }] }))
+        .mockResolvedValue(new Response('down', { status: 500 }));
+
+      const error = await partialClient(2).send([{ type: 'a' }, { type: 'b' }, { type: 'c' }]).catch(e => e);
+
+      expect(error).toMatchObject({ status: 500 });
+      expect(error.partial.unsent).toEqual([1]);
+      expect(error.partial.results.flatMap((request: RequestResult) => request.delivered)).toEqual([{ type: 'a' }, { type: 'c' }]);
+    });
+
+    it('should report transient rejections that outlast the retry budget', async () => {
+      mockFetch.mockImplementation(async () => json({ failed: [{ index: 0, retryable: true }] }));
+
+      const result = await partialClient(2).send([{ type: 'flaky' }]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(result.accepted).toBe(0);
+      expect(result.rejected).toMatchObject([{ index: 0, event: { type: 'flaky' }, retryable: true }]);
+      expect(onDeadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should not resend rejections when retries are disabled', async () => {
+      mockFetch.mockResolvedValueOnce(json({ rejected: [{ index: 0, status: 503 }] }));
+
+      const result = await client.send({ type: 'a' });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(result.rejected).toHaveLength(1);
+    });
+  });
+
+  describe('dead letters', () => {
+    let onDeadLetter: jest.Mock;
+    let deadLetterClient: NexusClient;
+
+    beforeEach(() => {
+      onDeadLetter = jest.fn();
+      deadLetterClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        onDeadLetter
+      });
+    });
+
+    it('should dead-letter the invalid event of a send', async () => {
+      await expect(deadLetterClient.send([{ type: 'ok' }, { type: '' }])).rejects.toThrow(NexusValidationError);
+
+      expect(onDeadLetter).toHaveBeenCalledWith([{ type: '' }], expect.any(NexusValidationError));
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter an invalid tracked event', () => {
+      expect(() => deadLetterClient.track({ type: 42 } as any)).toThrow(NexusValidationError);
+
+      expect(onDeadLetter).toHaveBeenCalledWith([{ type: 42 }], expect.any(NexusValidationError));
+    });
+
+    it('should dead-letter a tracked event that cannot be serialized', () => {
+      const circular: Record<string, unknown> = { type: 'loop' };
+      circular.self = circular;
+
+      expect(() => deadLetterClient.track(circular as any)).toThrow(NexusValidationError);
+      expect(() => deadLetterClient.track({ type: 'big', count: BigInt(1) })).toThrow(NexusValidationError);
+
+      expect(onDeadLetter).toHaveBeenCalledWith([circular], expect.any(NexusValidationError));
+      expect(onDeadLetter).toHaveBeenCalledTimes(2);
+    });
+
+    it('should dead-letter a batch the endpoint refuses with a 4xx', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('schema mismatch', { status: 422 }));
+
+      await expect(deadLetterClient.send({ type: 'a' })).rejects.toMatchObject({ status: 422 });
+
+      expect(onDeadLetter).toHaveBeenCalledWith([{ type: 'a' }], expect.objectContaining({ status: 422 }));
+    });
+
+    it('should not dead-letter auth or server errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('denied', { status: 401 }))
+        .mockResolvedValueOnce(new Response('down', { status: 500 }));
+
+      await deadLetterClient.send({ type: 'a' }).catch(() => undefined);
+      await deadLetterClient.send({ type: 'b' }).catch(() => undefined);
+
+      expect(onDeadLetter).not.toHaveBeenCalled();
+    });
+
+    it('should write to a sink', async () => {
+      const sink = new MemoryDeadLetterSink();
+      const sinkClient = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, onDeadLetter: sink });
+
+      await sinkClient.send({ type: '' }).catch(() => undefined);
+
+      expect(sink.entries).toHaveLength(1);
+    });
+
+    it('should reject with the validation error when the sink throws', async () => {
+      const sinkClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        onDeadLetter: { write: events => { JSON.stringify(events); } }
+      });
+      const circular: Record<string, unknown> = { type: 'loop' };
+      circular.self = circular;
+
+      await expect(sinkClient.send(circular as any)).rejects.toThrow(NexusValidationError);
+    });
+
+    it('should drop an undeliverable buffered batch instead of re-queuing it', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('bad', { status: 400 }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+
+      deadLetterClient.track({ type: 'a' });
+      await expect(deadLetterClient.flush()).rejects.toMatchObject({ status: 400 });
+      await deadLetterClient.flush();
+
+      expect(onDeadLetter).toHaveBeenCalledWith([{ type: 'a' }], expect.anything());
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('circuit breaker', () => {
+    const breakerClient = (circuitBreaker: NexusClientOptions['circuitBreaker']) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      circuitBreaker
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail fast once the endpoint keeps failing', async () => {
+      mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+      const breaking = breakerClient({ failureThreshold: 2 });
+
+      await breaking.send({ type: 'a' }).catch(() => undefined);
+      await breaking.send({ type: 'b' }).catch(() => undefined);
+      const error = await breaking.send({ type: 'c' }).catch(e => e);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(error).toBeInstanceOf(NexusCircuitOpenError);
+      expect(error.isRetryable).toBe(true);
+      expect(error.retryAt).toBe(Date.now() + 30000);
+      expect(breaking.getCircuitState()).toMatchObject({ state: 'open', failures: 2 });
+    });
+
+    it('should not count client errors against the endpoint', async () => {
+      mockFetch.mockImplementation(async () => new Response('bad', { status: 400 }));
+      const breaking = breakerClient({ failureThreshold: 1 });
+
+      await breaking.send({ type: 'a' }).catch(() => undefined);
+
+      expect(breaking.getCircuitState()?.state).toBe('closed');
+    });
+
+    it('should close again after a successful probe', async () => {
+      mockFetch.mockImplementationOnce(async () => new Response('down', { status: 500 }));
+      const breaking = breakerClient({ failureThreshold: 1, resetTimeoutMs: 1000 });
+      await breaking.send({ type: 'a' }).catch(() => undefined);
+
+      jest.advanceTimersByTime(1000);
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+      await breaking.send({ type: 'probe' });
+
+      expect(breaking.getCircuitState()?.state).toBe('closed');
+    });
+
+    it('should divert sends to the fallback while open', async () => {
+      mockFetch.mockImplementation(async () => { throw new TypeError('fetch failed'); });
+      const fallback = jest.fn();
+      const breaking = breakerClient({ failureThreshold: 1, fallback });
+      await breaking.send({ type: 'a' }).catch(() => undefined);
+
+      const result = await breaking.send({ type: 'b' });
+
+      expect(fallback).toHaveBeenCalledWith([{ type: 'b' }]);
+      expect(result).toMatchObject({ accepted: 1, attempts: 0 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop retrying once the circuit opens', async () => {
+      mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+      const breaking = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        retry: { maxAttempts: 5, baseDelayMs: 0, jitter: 'none' },
+        circuitBreaker: { failureThreshold: 2 }
+      });
+
+      const pending = breaking.send({ type: 'a' }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(10);
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusCircuitOpenError);
+      expect(error.attempts).toBe(2);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report no state without a breaker', () => {
+      expect(client.getCircuitState()).toBeUndefined();
+    });
+  });
+
+  describe('rate limiting', () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should queue sends beyond the rate instead of rejecting them', async () => {
+      const limited = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        rateLimit: { requestsPerSecond: 1 }
+      });
+
+      const sends = [limited.send({ type: 'a' }), limited.send({ type: 'b' })];
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(limited.getRateLimiterState()).toEqual({ queued: 1, waitMs: 1000 });
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await Promise.all(sends);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count every event of a split send against the event rate', async () => {
+      const limited = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        maxBatchEvents: 2,
+        rateLimit: { eventsPerSecond: 2 }
+      });
+
+      const pending = limited.send([{ type: 'a' }, { type: 'b' }, { type: 'c' }, { type: 'd' }]);
+      await jest.advanceTimersByTimeAsync(0);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await jest.advanceTimersByTimeAsync(1000);
+      await pending;
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should report no state without a rate limit', () => {
+      expect(client.getRateLimiterState()).toBeUndefined();
+    });
+  });
+
+  describe('request concurrency', () => {
+    let responses: Array<() => void>;
+
+    const queueClient = (options: Partial<NexusClientOptions>) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      ...options
+    });
+
+    beforeEach(() => {
+      responses = [];
+      mockFetch.mockImplementation(() => new Promise(resolve => {
+        responses.push(() => resolve(new Response('OK', { status: 200 })));
+      }));
+    });
+
+    const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    it('should cap the requests in flight across sends', async () => {
+      const queued = queueClient({ maxConcurrentRequests: 2 });
+
+      const sends = [1, 2, 3].map(index => queued.send({ type: 'event', index }));
+      await settle();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      responses[0]();
+      await settle();
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+
+      responses.forEach(respond => respond());
+      await Promise.all(sends);
+    });
+
+    it('should reject a send when the queue is full under the throw policy', async () => {
+      const queued = queueClient({ maxConcurrentRequests: 1, maxQueuedRequests: 0, queueOverflow: 'throw' });
+
+      const first = queued.send({ type: 'a' });
+      const error = await queued.send({ type: 'b' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusQueueFullError);
+      expect(error.isRetryable).toBe(true);
+      await settle();
+      responses[0]();
+      await first;
+    });
+
+    it('should dead-letter the events of a dropped request', async () => {
+      const onDeadLetter = jest.fn();
+      const queued = queueClient({ maxConcurrentRequests: 1, maxQueuedRequests: 1, queueOverflow: 'drop-oldest', onDeadLetter });
+
+      const sends = [queued.send({ type: 'a' }), queued.send({ type: 'b' })];
+      const error = await Promise.all([...sends, queued.send({ type: 'c' })]).catch(e => e);
+
+      expect(error).toMatchObject({ dropped: true, isRetryable: false });
+      expect(onDeadLetter).toHaveBeenCalledWith([{ type: 'b' }], error);
+      responses.forEach(respond => respond());
+      await sends[0];
+    });
+  });
+
+  describe('endpoint failover', () => {
+    const primary = 'https://eu.example.com/events';
+    const secondary = 'https://us.example.com/events';
+    const requestedUrls = () => mockFetch.mock.calls.map(call => call[0]);
+
+    const failoverClient = (options: Partial<NexusClientOptions> = {}) => new NexusClient({
+      url: [primary, secondary],
+      token: 'test-token',
+      fetch: mockFetch,
+      ...options
+    });
+
+    beforeEach(() => {
+      jest.useFakeTimers();
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should fail over to the next endpoint on a server error', async () => {
+      mockFetch.mockImplementation(async (url: string) => url === primary
+        ? new Response('down', { status: 503 })
+        : new Response('OK', { status: 200 }));
+      const failing = failoverClient();
+
+      const result = await failing.send({ type: 'a' });
+
+      expect(requestedUrls()).toEqual([primary, secondary]);
+      expect(result).toMatchObject({ attempts: 2, response: { status: 200 } });
+    });
+
+    it('should fail over on network errors without using up a retry', async () => {
+      mockFetch.mockImplementation(async (url: string) => {
+        if (url === primary) {
+          throw new TypeError('fetch failed');
+        }
+        return new Response('OK', { status: 200 });
+      });
+
+      await failoverClient({ retry: false }).send({ type: 'a' });
+
+      expect(requestedUrls()).toEqual([primary, secondary]);
+    });
+
+    it('should not fail over on client errors', async () => {
+      mockFetch.mockImplementation(async () => new Response('bad', { status: 400 }));
+
+      await expect(failoverClient().send({ type: 'a' })).rejects.toThrow(NexusHttpError);
+      expect(requestedUrls()).toEqual([primary]);
+    });
+
+    it('should keep using the secondary until the primary cools down, then fail back', async () => {
+      let primaryDown = true;
+      mockFetch.mockImplementation(async (url: string) => url === primary && primaryDown
+        ? new Response('down', { status: 500 })
+        : new Response('OK', { status: 200 }));
+      const onEndpointChange = jest.fn();
+      const failing = failoverClient({ failover: { cooldownMs: 1000, onEndpointChange } });
+
+      await failing.send({ type: 'a' });
+      await failing.send({ type: 'b' });
+      expect(requestedUrls()).toEqual([primary, secondary, secondary]);
+      expect(failing.getEndpointHealth().map(endpoint => endpoint.healthy)).toEqual([false, true]);
+
+      primaryDown = false;
+      jest.advanceTimersByTime(1000);
+      await failing.send({ type: 'c' });
+
+      expect(requestedUrls()[3]).toBe(primary);
+      expect(onEndpointChange.mock.calls).toEqual([[secondary, primary], [primary, secondary]]);
+    });
+
+    it('should retry on the first endpoint to recover once every endpoint has failed', async () => {
+      mockFetch.mockImplementation(async () => new Response('down', { status: 503 }));
+      const failing = failoverClient({ retry: { maxAttempts: 2, baseDelayMs: 100, jitter: 'none' } });
+
+      const pending = failing.send({ type: 'a' }).catch(e => e);
+      await jest.advanceTimersByTimeAsync(100);
+      const error = await pending;
+
+      expect(error).toBeInstanceOf(NexusHttpError);
+      expect(error.attempts).toBe(3);
+      expect(requestedUrls()).toEqual([primary, secondary, primary]);
+    });
+  });
+
+  describe('batch splitting', () => {
+    const events = (count: number) => Array.from({ length: count }, (_, index) => ({ type: 'event', index }));
+    const sentBatches = () => mockFetch.mock.calls.map(call => JSON.parse(call[1].body).map((event: NexusEvent) => event.index));
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+    });
+
+    it('should split a send into requests of maxBatchEvents', async () => {
+      const result = await client.send(events(5), { maxBatchEvents: 2 });
+
+      expect(sentBatches()).toEqual([[0, 1], [2, 3], [4]]);
+      expect(result.requests).toHaveLength(3);
+      expect(result.response).toBe(result.requests[2].response);
+    });
+
+    it('should keep each request body within maxBatchBytes', async () => {
+      const splitting = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        maxBatchBytes: 100
+      });
+
+      await splitting.send(events(10));
+
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(1);
+      for (const [, init] of mockFetch.mock.calls) {
+        expect(init.body.length).toBeLessThanOrEqual(100);
+      }
+      expect(sentBatches().flat()).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+    });
+
+    it('should limit how many requests run at once', async () => {
+      let running = 0;
+      let peak = 0;
+      mockFetch.mockImplementation(async () => {
+        running++;
+        peak = Math.max(peak, running);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        running--;
+        return new Response('OK', { status: 200 });
+      });
+
+      await client.send(events(10), { maxBatchEvents: 1, batchConcurrency: 2 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(10);
+      expect(peak).toBe(2);
+    });
+
+    it('should re-split a batch the endpoint rejects with 413', async () => {
+      mockFetch.mockImplementation(async (_url, init) => JSON.parse(init.body).length > 2
+        ? new Response('too large', { status: 413, statusText: 'Payload Too Large' })
+        : new Response('OK', { status: 200 }));
+
+      const result = await client.send(events(5));
+
+      expect(sentBatches()).toEqual([[0, 1, 2, 3, 4], [0, 1, 2], [0, 1], [2], [3, 4]]);
+      expect(result.requests).toHaveLength(3);
+    });
+
+    it('should report the half of a re-split batch that was delivered', async () => {
+      mockFetch.mockImplementation(async (_url, init) => {
+        const batch = JSON.parse(init.body);
+        if (batch.length > 2) {
+          return new Response('too large', { status: 413, statusText: 'Payload Too Large' });
+        }
+        return batch[0].index === 0 ? new Response('OK', { status: 200 }) : new Response('down', { status: 503 });
+      });
+
+      const error = await client.send(events(4)).catch(e => e);
+
+      expect(error).toMatchObject({ status: 503 });
+      expect(error.partial.results).toHaveLength(1);
+      expect(error.partial.unsent).toEqual([2, 3]);
+    });
+
+    it('should fail when a single event is too large', async () => {
+      mockFetch.mockImplementation(async () => new Response('too large', { status: 413, statusText: 'Payload Too Large' }));
+
+      await expect(client.send({ type: 'huge' })).rejects.toMatchObject({ status: 413 });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should derive a distinct idempotency key per request', async () => {
+      await client.send(events(3), { maxBatchEvents: 2, idempotencyKey: 'import' });
+
+      expect(mockFetch.mock.calls.map(call => call[1].headers['Idempotency-Key'])).toEqual(['import-1', 'import-2']);
+    });
+
+    it('should keep sending the other requests after one is refused for good', async () => {
+      const onDeadLetter = jest.fn();
+      const splitting = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, onDeadLetter });
+      mockFetch.mockResolvedValueOnce(new Response('bad', { status: 400 }));
+
+      const error = await splitting.send(events(50), { maxBatchEvents: 10, batchConcurrency: 1 }).catch(e => e);
+
+      expect(mockFetch).toHaveBeenCalledTimes(5);
+      expect(error).toMatchObject({ status: 400, partial: { unsent: [] } });
+      expect(error.partial.results).toHaveLength(4);
+      expect(onDeadLetter).toHaveBeenCalledTimes(1);
+      expect(onDeadLetter.mock.calls[0][0]).toEqual(events(10));
+    });
+
+    it('should serialize each event only once', async () => {
+      let serialized = 0;
+      const counted = (index: number) => ({ type: 'event', index, payload: { toJSON: () => ++serialized } });
+
+      await client.send([counted(0), counted(1), counted(2)], { maxBatchEvents: 2 });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(serialized).toBe(3);
+    });
+
+    it('should report the events a transient failure left unsent', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }))
+        .mockResolvedValueOnce(new Response('down', { status: 503 }));
+
+      const error = await client.send(events(5), { maxBatchEvents: 2, batchConcurrency: 1 }).catch(e => e);
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(error).toMatchObject({ status: 503, partial: { unsent: [2, 3, 4] } });
+      expect(error.partial.results).toHaveLength(1);
+    });
+  });
+
+  describe('compression', () => {
+    const compressingClient = (compression: NexusClientOptions['compression']) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      compression
+    });
+
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+    });
+
+    it('should gzip bodies above the threshold', async () => {
+      const events = [{ type: 'bulk', payload: 'x'.repeat(2000) }];
+
+      await compressingClient(true).send(events);
+
+      const init = mockFetch.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+      expect(init.headers['Content-Type']).toBe('application/json');
+      expect(gunzipSync(init.body).toString()).toBe(JSON.stringify(events));
+    });
+
+    it('should send uncompressed when no compressor is available', async () => {
+      const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'CompressionStream')!;
+      delete (globalThis as any).CompressionStream;
+      try {
+        await compressingClient(true).send({ type: 'bulk', payload: 'x'.repeat(2000) });
+      } finally {
+        Object.defineProperty(globalThis, 'CompressionStream', descriptor);
+      }
+
+      const init = mockFetch.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(typeof init.body).toBe('string');
+    });
+
+    it('should send small bodies uncompressed', async () => {
+      await compressingClient(true).send({ type: 'small' });
+
+      const init = mockFetch.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(init.body).toBe(JSON.stringify([{ type: 'small' }]));
+    });
+
+    it('should deflate when configured', async () => {
+      await compressingClient({ algorithm: 'deflate', thresholdBytes: 0 }).send({ type: 'small' });
+
+      const init = mockFetch.mock.calls[0][1];
+      expect(init.headers['Content-Encoding']).toBe('deflate');
+      expect(inflateSync(init.body).toString()).toBe(JSON.stringify([{ type: 'small' }]));
+    });
+
+    it('should reuse the compressed body on retries', async () => {
+      mockFetch
+        .mockImplementationOnce(async () => new Response('down', { status: 503 }))
+        .mockImplementationOnce(async () => new Response('OK', { status: 200 }));
+      const retrying = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        compression: { thresholdBytes: 0 },
+        retry: { maxAttempts: 2, baseDelayMs: 0, jitter: 'none' }
+      });
+
+      await retrying.send({ type: 'event' });
+
+      expect(mockFetch.mock.calls[1][1].body).toBe(mockFetch.mock.calls[0][1].body);
+    });
+  });
+
+  describe('track and flush', () => {
+    it('should buffer tracked events until flush is called', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      client.track({ type: 'event.one' });
+      client.track({ type: 'event.two' });
+      expect(mockFetch).not.toHaveBeenCalled();
+
+      await client.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify([{ type: 'event.one' }, { type: 'event.two' }]));
+    });
+
+    it('should flush automatically once the batch is full', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+      const batchingClient = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        batching: { maxEvents: 2 }
+      });
+
+      batchingClient.track({ type: 'event.one' });
+      batchingClient.track({ type: 'event.two' });
+      await batchingClient.flush();
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep events queued when a flush fails', async () => {
+      mockFetch
+        .mockResolvedValueOnce(new Response('down', { status: 500 }))
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }));
+
+      client.track({ type: 'event.one' });
+      await expect(client.flush()).rejects.toThrow('Failed to send event(s): 500');
+
+      await client.flush();
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][1].body).toBe(JSON.stringify([{ type: 'event.one' }]));
+    });
+
+    describe('with split requests', () => {
+      let onDeadLetter: jest.Mock;
+      let splitting: NexusClient;
+      const sentIndices = (calls: any[][]) => calls.flatMap(call => JSON.parse(call[1].body).map((event: NexusEvent) => event.index));
+
+      beforeEach(() => {
+        onDeadLetter = jest.fn();
+        splitting = new NexusClient({
+          url: 'https://api.example.com/events',
+          token: 'test-token',
+          fetch: mockFetch,
+          maxBatchEvents: 10,
+          batchConcurrency: 1,
+          onDeadLetter
+        });
+        for (let index = 0; index < 50; index++) {
+          splitting.track({ type: 'event', index });
+        }
+      });
+
+      it('should deliver the other requests of a batch when one is refused', async () => {
+        mockFetch
+          .mockResolvedValueOnce(new Response('bad', { status: 400 }))
+          .mockResolvedValue(new Response('OK', { status: 200 }));
+
+        await expect(splitting.flush()).rejects.toMatchObject({ status: 400 });
+
+        expect(mockFetch).toHaveBeenCalledTimes(5);
+        expect(onDeadLetter.mock.calls[0][0]).toHaveLength(10);
+        await splitting.flush();
+        expect(mockFetch).toHaveBeenCalledTimes(5);
+      });
+
+      it('should re-queue only the events a transient failure left unsent', async () => {
+        mockFetch
+          .mockResolvedValueOnce(new Response('OK', { status: 200 }))
+          .mockResolvedValueOnce(new Response('down', { status: 503 }))
+          .mockImplementation(async () => new Response('OK', { status: 200 }));
+
+        await expect(splitting.flush()).rejects.toMatchObject({ status: 503 });
+        await splitting.flush();
+
+        const calls = mockFetch.mock.calls;
+        expect(sentIndices([calls[0], ...calls.slice(2)])).toEqual(Array.from({ length: 50 }, (_, index) => index));
+      });
+    });
+  });
+
+  describe('unload delivery', () => {
+    const navigatorDescriptor = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+    let sendBeacon: jest.Mock;
+
+    beforeEach(() => {
+      sendBeacon = jest.fn().mockReturnValue(true);
+      Object.defineProperty(globalThis, 'navigator', { value: { sendBeacon }, configurable: true });
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+    });
+
+    afterEach(() => {
+      if (navigatorDescriptor) {
+        Object.defineProperty(globalThis, 'navigator', navigatorDescriptor);
+      } else {
+        delete (globalThis as any).navigator;
+      }
+    });
+
+    const beaconClient = (beacon: NexusClientOptions['beacon']) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      beacon
+    });
+
+    it('should send with fetch keepalive', async () => {
+      await client.send({ type: 'page.hidden' }, { keepalive: true });
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ keepalive: true, headers: { 'Authorization': 'Bearer test-token' } });
+    });
+
+    it('should keep keepalive requests in flight within the 64KB budget', async () => {
+      let inFlight = 0;
+      let peak = 0;
+      mockFetch.mockImplementation(async (_url, init) => {
+        const size = new TextEncoder().encode(init.body).length;
+        inFlight += size;
+        peak = Math.max(peak, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 1));
+        inFlight -= size;
+        return new Response('OK', { status: 200 });
+      });
+      const events = Array.from({ length: 300 }, (_, index) => ({ type: 'big', index, padding: 'x'.repeat(500) }));
+
+      const result = await client.send(events, { keepalive: true, idempotencyKey: 'unload' });
+
+      expect(mockFetch.mock.calls.length).toBeGreaterThan(2);
+      expect(peak).toBeLessThanOrEqual(64 * 1024);
+      expect(result.accepted).toBe(300);
+      expect(mockFetch.mock.calls[1][1].headers['Idempotency-Key']).toBe('unload-2');
+    });
+
+    it('should send beacons with the token in the query string', async () => {
+      const { response } = await beaconClient(true).send({ type: 'page.hidden' }, { beacon: true });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(sendBeacon.mock.calls[0][0]).toBe('https://api.example.com/events?token=test-token');
+      expect(await (sendBeacon.mock.calls[0][1] as Blob).text()).toBe(JSON.stringify([{ type: 'page.hidden' }]));
+      expect(response.status).toBe(202);
+    });
+
+    it('should send beacons to a signed URL', async () => {
+      await beaconClient({ url: () => 'https://api.example.com/beacon?sig=abc' }).send({ type: 'page.hidden' }, { beacon: true });
+
+      expect(sendBeacon.mock.calls[0][0]).toBe('https://api.example.com/beacon?sig=abc');
+    });
+
+    it('should fall back to keepalive fetch when the beacon is refused', async () => {
+      sendBeacon.mockReturnValue(false);
+
+      await beaconClient(true).send({ type: 'page.hidden' }, { beacon: true });
+
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ keepalive: true });
+    });
+
+    it('should not send beacons unless the client allows them', async () => {
+      await client.send({ type: 'page.hidden' }, { beacon: true });
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({ keepalive: true });
+    });
+
+    it('should flush buffered events with keepalive', async () => {
+      client.track({ type: 'event.one' });
+      client.track({ type: 'event.two' });
+
+      await client.flush({ keepalive: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][1]).toMatchObject({
+        keepalive: true,
+        body: JSON.stringify([{ type: 'event.one' }, { type: 'event.two' }])
+      });
+    });
+
+    it('should put buffered events back when an unload flush fails', async () => {
+      mockFetch.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+      client.track({ type: 'event.one' });
+      client.track({ type: 'event.two' });
+
+      await expect(client.flush({ keepalive: true })).rejects.toBeInstanceOf(NexusNetworkError);
+      await client.flush();
+
+      expect(mockFetch.mock.calls.map(call => JSON.parse(call[1].body))).toEqual([
+        [{ type: 'event.one' }, { type: 'event.two' }],
+        [{ type: 'event.one' }, { type: 'event.two' }]
+      ]);
+      await expect(client.close()).resolves.toMatchObject({ failed: 0, dropped: 0 });
+    });
+
+    it('should put back only the batches an unload flush did not deliver', async () => {
+      const splitting = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, maxBatchEvents: 1 });
+      mockFetch
+        .mockResolvedValueOnce(new Response('OK', { status: 200 }))
+        .mockResolvedValueOnce(new Response('down', { status: 503 }));
+      splitting.track({ type: 'event.one' });
+      splitting.track({ type: 'event.two' });
+
+      await expect(splitting.flush({ keepalive: true })).rejects.toMatchObject({ status: 503 });
+      await splitting.flush();
+
+      expect(JSON.parse(mockFetch.mock.calls[2][1].body)).toEqual([{ type: 'event.two' }]);
+    });
+
+    it('should not wait out a Retry-After pause on unload', async () => {
+      mockFetch.mockResolvedValueOnce(new Response('slow down', { status: 429, headers: { 'Retry-After': '3600' } }));
+      await client.send({ type: 'throttled' }).catch(() => undefined);
+
+      await client.send({ type: 'leaving' }, { keepalive: true });
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('close', () => {
+    it('should drain buffered events and report the summary', async () => {
+      mockFetch.mockResolvedValue(new Response('OK', { status: 200 }));
+
+      client.track({ type: 'event.one' });
+      client.track({ type: 'event.two' });
+      const summary = await client.close();
+
+      expect(summary).toEqual({ delivered: 2, failed: 0, dropped: 0, timedOut: false });
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(client.closed).toBe(true);
+    });
+
+    it('should stop accepting new events once closed', async () => {
+      await client.close();
+
+      expect(() => client.track({ type: 'late' })).toThrow('NexusClient is closed.');
+      await expect(client.send({ type: 'late' })).rejects.toThrow('NexusClient is closed.');
+    });
+
+    it('should report undelivered events when the endpoint keeps failing', async () => {
+      mockFetch.mockResolvedValue(new Response('down', { status: 500 }));
+
+      client.track({ type: 'event.one' });
+      const summary = await client.close();
+
+      expect(summary).toEqual({ delivered: 0, failed: 1, dropped: 0, timedOut: false });
+    });
+
+    it('should keep draining past a batch the endpoint refuses', async () => {
+      const draining = new NexusClient({
+        url: 'https://api.example.com/events',
+        token: 'test-token',
+        fetch: mockFetch,
+        batching: { maxEvents: 1 }
+      });
+      mockFetch
+        .mockResolvedValueOnce(new Response('bad', { status: 400 }))
+        .mockImplementation(async () => new Response('OK', { status: 200 }));
+
+      for (const type of ['bad', 'a', 'b', 'c']) {
+        draining.track({ type });
+      }
+      const summary = await draining.close();
+
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+      expect(summary).toEqual({ delivered: 3, failed: 0, dropped: 1, timedOut: false });
+    });
+
+    it('should give up after timeoutMs', async () => {
+      jest.useFakeTimers();
+      try {
+        mockFetch.mockReturnValue(new Promise(() => undefined));
+
+        client.track({ type: 'event.one' });
+        const closing = client.close({ timeoutMs: 1000 });
+        await jest.advanceTimersByTimeAsync(1000);
+
+        await expect(closing).resolves.toEqual({ delivered: 0, failed: 1, dropped: 0, timedOut: true });
+      } finally {
+        jest.useRealTimers();
+      }
+    });
+
+    it('should return the same summary when called twice', async () => {
+      expect(client.close()).toBe(client.close());
+    });
+  });
+
+  describe('encoding', () => {
+    beforeEach(() => {
+      mockFetch.mockImplementation(async () => new Response('OK', { status: 200 }));
+    });
+
+    const ndjsonClient = (options: Partial<NexusClientOptions> = {}) => new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      encoding: 'ndjson',
+      ...options
+    });
+
+    it('should post newline-delimited events with the NDJSON content type', async () => {
+      await ndjsonClient().send([{ type: 'a' }, { type: 'b' }]);
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.body).toBe('{"type":"a"}\n{"type":"b"}\n');
+      expect(init.headers['Content-Type']).toBe('application/x-ndjson');
+    });
+
+    it('should split NDJSON sends like JSON ones', async () => {
+      await ndjsonClient({ maxBatchEvents: 1 }).send([{ type: 'a' }, { type: 'b' }]);
+
+      expect(mockFetch.mock.calls.map(call => call[1].body)).toEqual(['{"type":"a"}\n', '{"type":"b"}\n']);
+    });
+
+    it('should dead-letter only the event that cannot be serialized', async () => {
+      const onDeadLetter = jest.fn();
+      const circular: any = { type: 'circular' };
+      circular.self = circular;
+
+      await expect(ndjsonClient({ onDeadLetter }).send([{ type: 'ok' }, circular])).rejects.toThrow(NexusValidationError);
+      expect(onDeadLetter).toHaveBeenCalledWith([circular], expect.any(NexusValidationError));
+    });
+
+    it('should dead-letter only the event that cannot be serialized as JSON', async () => {
+      const onDeadLetter = jest.fn();
+      const circular: any = { type: 'circular' };
+      circular.self = circular;
+
+      const error = await ndjsonClient({ onDeadLetter, encoding: 'json' })
+        .send([{ type: 'ok1' }, { type: 'ok2' }, circular])
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusValidationError);
+      expect(error).toMatchObject({ index: 2, partial: { unsent: [0, 1] } });
+      expect(onDeadLetter).toHaveBeenCalledWith([circular], error);
+    });
+
+    it('should send the other requests when one holds an event that cannot be serialized', async () => {
+      const onDeadLetter = jest.fn();
+      const circular: any = { type: 'circular' };
+      circular.self = circular;
+
+      const error = await ndjsonClient({ onDeadLetter, maxBatchEvents: 2 })
+        .send([{ type: 'a' }, { type: 'b' }, { type: 'c' }, circular])
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusValidationError);
+      expect(error).toMatchObject({ index: 3, partial: { unsent: [2] } });
+      expect(onDeadLetter).toHaveBeenCalledWith([circular], error);
+      expect(mockFetch.mock.calls.map(call => call[1].body)).toEqual(['{"type":"a"}\n{"type":"b"}\n']);
+    });
+
+    it('should post MessagePack bodies with their content type', async () => {
+      const sentAt = new Date('2024-05-01T12:00:00.250Z');
+
+      await ndjsonClient({ encoding: 'msgpack' }).send([{ type: 'a', sentAt }, { type: 'b', id: 2n ** 60n }]);
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Type']).toBe('application/msgpack');
+      expect(decodeMessagePack(init.body)).toEqual([{ type: 'a', sentAt }, { type: 'b', id: 2n ** 60n }]);
+    });
+
+    it('should size MessagePack batches by their encoded bytes', async () => {
+      // Each event is about 55 bytes as MessagePack but several hundred as JSON.
+      const events = [{ type: 'a', blob: new Uint8Array(40) }, { type: 'b', blob: new Uint8Array(40) }];
+
+      await ndjsonClient({ encoding: 'msgpack', maxBatchBytes: 200 }).send(events);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(decodeMessagePack(mockFetch.mock.calls[0][1].body)).toEqual(events);
+    });
+  });
+
+  describe('custom transport', () => {
+    it('should send through the transport instead of fetch', async () => {
+      const transport = { send: jest.fn().mockResolvedValue({ status: 200, headers: { 'x-request-id': 'req-1' } }) };
+      const custom = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, transport });
+
+      const result = await custom.send({ type: 'a' });
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(transport.send).toHaveBeenCalledWith({
+        url: 'https://api.example.com/events',
+        headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer test-token' },
+        body: JSON.stringify([{ type: 'a' }])
+      });
+      expect(result.response).toBeInstanceOf(Response);
+      expect(result).toMatchObject({ accepted: 1, requestId: 'req-1' });
+    });
+
+    it('should turn error statuses from the transport into typed errors', async () => {
+      const transport = { send: jest.fn().mockResolvedValue({ status: 400, statusText: 'Bad Request', body: 'missing field' }) };
+      const custom = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', transport });
+
+      const error = await custom.send({ type: 'a' }).catch(e => e);
+
+      expect(error).toBeInstanceOf(NexusHttpError);
+      expect(error).toMatchObject({ status: 400, body: 'missing field' });
+    });
+
+    it('should treat a rejected transport as a network error', async () => {
+      const transport = { send: jest.fn().mockRejectedValue(new Error('socket hang up')) };
+      const custom = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', transport });
+
+      await expect(custom.send({ type: 'a' })).rejects.toThrow(NexusNetworkError);
+    });
+
+    it('should give the transport a signal when the attempt can time out', async () => {
+      const transport = { send: jest.fn().mockResolvedValue({ status: 200 }) };
+      const custom = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', transport, timeoutMs: 1000 });
+
+      await custom.send({ type: 'a' });
+
+      expect(transport.send.mock.calls[0][0].signal).toBeInstanceOf(AbortSignal);
+    });
+  });
+
   describe('custom fetch implementation', () => {
     it('should use custom fetch function', async () => {
       const customFetch = jest.fn().mockResolvedValue({
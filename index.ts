@@ -1,46 +1,44 @@
+export {
+    NexusError,
+    NexusErrorDetails,
+    PartialSend,
+    NexusHttpError,
+    NexusHttpErrorDetails,
+    NexusAuthError,
+    NexusNetworkError,
+    NexusTimeoutError,
+    NexusAbortError,
+    NexusValidationError,
+    NexusRejectedError,
+    NexusCircuitOpenError,
+    NexusQueueFullError,
+} from './errors';
+export { RetryOptions, JitterMode, DEFAULT_RETRY_STATUS } from './retry';
+export { ThrottleState, RateLimitInfo, parseRetryAfter, parseRateLimitHeaders } from './throttle';
+export { BatchingOptions, CloseSummary } from './batcher';
+export { IdempotencyOptions } from './ids';
+export { BeaconOptions } from './beacon';
+export { CompressionOptions, CompressionAlgorithm, Compressor, registerCompressor } from './compression';
+export { SendResult, RequestResult, EventRejection } from './result';
+export { CircuitBreakerOptions, CircuitBreakerState, CircuitState } from './breaker';
+export { RateLimitOptions, RateLimiterState } from './ratelimit';
+export { QueueOverflowPolicy } from './concurrency';
+export { FailoverOptions, EndpointHealth } from './endpoints';
+export { EventEncoding } from './encoding';
+export { encodeMessagePack, decodeMessagePack } from './msgpack';
+export { Transport, TransportRequest, TransportResponse, FetchTransport } from './transport';
+export { NexusClient, NexusClientOptions, SendOptions, FlushOptions, CloseOptions } from './client';
+export { NexusRouter, RouterOptions, Route, RouteMatch, RouterSendResult } from './router';
+export {
+    DeadLetterHandler,
+    DeadLetterSink,
+    DeadLetterEntry,
+    MemoryDeadLetterSink,
+    ConsoleDeadLetterSink,
+    isUndeliverable,
+} from './deadletter';
+
 export interface NexusEvent {
     type: string;
     [key: string]: any;
 }
-
-export interface NexusClientOptions {
-    url: string;
-    token: string;
-    fetch?: typeof fetch;
-}
-
-export class NexusClient {
-    private readonly url: string;
-    private readonly token: string;
-    private readonly fetchFn: typeof fetch;
-
-    constructor(options: NexusClientOptions) {
-        this.url = options.url;
-        this.token = options.token;
-        this.fetchFn = options.fetch || fetch;
-
-        if (!this.url || !this.token) {
-            throw new Error("NexusClient requires both `url` and `token`.");
-        }
-    }
-
-    async send(events: NexusEvent | NexusEvent[]): Promise<Response> {
-        const payload = Array.isArray(events) ? events : [events];
-
-        const response = await this.fetchFn(this.url, {
-            method: 'POST',
-            headers: {
-                'Content-Type': 'application/json',
-                'Authorization': `Bearer ${this.token}`,
-            },
-            body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-            const errorBody = await response.text();
-            throw new Error(`Failed to send event(s): ${response.status} ${response.statusText} - ${errorBody}`);
-        }
-
-        return response;
-    }
-}
\ No newline at end of file
@@ -8,7 +8,8 @@ module.exports = {
     '^.+\\.ts$': 'ts-jest',
   },
   collectCoverageFrom: [
-    'index.ts',
+    '*.ts',
+    '!*.test.ts',
     '!**/*.d.ts',
     '!**/node_modules/**',
     '!**/dist/**',
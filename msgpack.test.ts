@@ -0,0 +1,94 @@
+import { decodeMessagePack, encodeMessagePack } from './msgpack';
+
+const roundTrip = (value: unknown) => decodeMessagePack(encodeMessagePack(value));
+
+describe('MessagePack', () => {
+  it('should round-trip nested objects and arrays', () => {
+    const value = { type: 'order.placed', items: [{ sku: 'a', qty: 2 }, { sku: 'b', qty: 1 }], meta: { tags: ['x', 'y'], empty: {} } };
+
+    expect(roundTrip(value)).toEqual(value);
+  });
+
+  it('should round-trip null, booleans and floats', () => {
+    expect(roundTrip([null, true, false, 1.5, -0.25, Math.PI])).toEqual([null, true, false, 1.5, -0.25, Math.PI]);
+  });
+
+  it('should use the smallest integer format that fits', () => {
+    expect(Array.from(encodeMessagePack(7))).toEqual([0x07]);
+    expect(Array.from(encodeMessagePack(-3))).toEqual([0xfd]);
+    expect(Array.from(encodeMessagePack(200))).toEqual([0xcc, 200]);
+    expect(Array.from(encodeMessagePack(-200))).toEqual([0xd1, 0xff, 0x38]);
+  });
+
+  it('should round-trip integers across the 32- and 64-bit boundaries', () => {
+    const values = [0, 127, 128, 65535, 65536, 2 ** 32 - 1, 2 ** 32 + 1, -(2 ** 31), -(2 ** 31) - 1, Number.MAX_SAFE_INTEGER, Number.MIN_SAFE_INTEGER];
+
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it('should keep 64-bit integers beyond the safe range as bigints', () => {
+    expect(roundTrip(2n ** 63n + 5n)).toBe(2n ** 63n + 5n);
+    expect(roundTrip(-(2n ** 62n) - 1n)).toBe(-(2n ** 62n) - 1n);
+    expect(roundTrip(42n)).toBe(42);
+  });
+
+  it('should reject bigints that do not fit in 64 bits', () => {
+    expect(() => encodeMessagePack(2n ** 64n)).toThrow(RangeError);
+  });
+
+  it('should round-trip strings of every length class and UTF-8 text', () => {
+    const values = ['', 'short', 'x'.repeat(31), 'x'.repeat(32), 'y'.repeat(300), 'z'.repeat(70000), 'héllo 🚀 世界'];
+
+    expect(roundTrip(values)).toEqual(values);
+  });
+
+  it('should round-trip binary data as Uint8Array', () => {
+    const bytes = Uint8Array.from({ length: 300 }, (_, index) => index % 256);
+
+    const decoded = roundTrip({ payload: bytes, buffer: Buffer.from('abc') }) as Record<string, Uint8Array>;
+
+    expect(decoded.payload).toBeInstanceOf(Uint8Array);
+    expect(Array.from(decoded.payload)).toEqual(Array.from(bytes));
+    expect(Array.from(decoded.buffer)).toEqual([0x61, 0x62, 0x63]);
+  });
+
+  it('should round-trip dates as timestamps', () => {
+    const dates = [
+      new Date('2024-05-01T12:00:00Z'),
+      new Date('2024-05-01T12:00:00.123Z'),
+      new Date('1969-07-20T20:17:40.5Z'),
+      new Date('2600-01-01T00:00:00.001Z'),
+    ];
+
+    const decoded = roundTrip(dates) as Date[];
+
+    decoded.forEach(date => expect(date).toBeInstanceOf(Date));
+    expect(decoded.map(date => date.getTime())).toEqual(dates.map(date => date.getTime()));
+  });
+
+  it('should omit undefined properties like JSON does', () => {
+    expect(roundTrip({ type: 'a', missing: undefined, list: [undefined] })).toEqual({ type: 'a', list: [null] });
+  });
+
+  it('should throw on circular structures', () => {
+    const circular: any = { type: 'circular' };
+    circular.self = circular;
+
+    expect(() => encodeMessagePack(circular)).toThrow('Cannot encode a circular structure as MessagePack.');
+  });
+
+  it('should reject truncated data and trailing bytes', () => {
+    const bytes = encodeMessagePack({ type: 'a' });
+
+    expect(() => decodeMessagePack(bytes.subarray(0, bytes.length - 1))).toThrow(RangeError);
+    expect(() => decodeMessagePack(Uint8Array.from([...bytes, 0xc0]))).toThrow(RangeError);
+  });
+
+  it('should decode a __proto__ key as plain data', () => {
+    const decoded = decodeMessagePack(encodeMessagePack(JSON.parse('{"__proto__":{"polluted":true}}'))) as any;
+
+    expect(Object.keys(decoded)).toEqual(['__proto__']);
+    expect(({} as any).polluted).toBeUndefined();
+    expect(decoded.polluted).toBeUndefined();
+  });
+});
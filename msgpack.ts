@@ -0,0 +1,471 @@
+const TIMESTAMP_EXTENSION = -1;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+class Writer {
+    private bytes = new Uint8Array(256);
+    private view = new DataView(this.bytes.buffer);
+    private length = 0;
+
+    u8(value: number): void {
+        this.ensure(1);
+        this.view.setUint8(this.length, value);
+        this.length += 1;
+    }
+
+    u16(value: number): void {
+        this.ensure(2);
+        this.view.setUint16(this.length, value);
+        this.length += 2;
+    }
+
+    u32(value: number): void {
+        this.ensure(4);
+        this.view.setUint32(this.length, value);
+        this.length += 4;
+    }
+
+    u64(value: bigint): void {
+        this.ensure(8);
+        this.view.setBigUint64(this.length, value);
+        this.length += 8;
+    }
+
+    i8(value: number): void {
+        this.ensure(1);
+        this.view.setInt8(this.length, value);
+        this.length += 1;
+    }
+
+    i16(value: number): void {
+        this.ensure(2);
+        this.view.setInt16(this.length, value);
+        this.length += 2;
+    }
+
+    i32(value: number): void {
+        this.ensure(4);
+        this.view.setInt32(this.length, value);
+        this.length += 4;
+    }
+
+    i64(value: bigint): void {
+        this.ensure(8);
+        this.view.setBigInt64(this.length, value);
+        this.length += 8;
+    }
+
+    f64(value: number): void {
+        this.ensure(8);
+        this.view.setFloat64(this.length, value);
+        this.length += 8;
+    }
+
+    raw(bytes: Uint8Array): void {
+        this.ensure(bytes.length);
+        this.bytes.set(bytes, this.length);
+        this.length += bytes.length;
+    }
+
+    result(): Uint8Array {
+        return this.bytes.slice(0, this.length);
+    }
+
+    private ensure(count: number): void {
+        if (this.length + count <= this.bytes.length) {
+            return;
+        }
+        const grown = new Uint8Array(Math.max(this.bytes.length * 2, this.length + count));
+        grown.set(this.bytes.subarray(0, this.length));
+        this.bytes = grown;
+        this.view = new DataView(grown.buffer);
+    }
+}
+
+/**
+ * Encodes a value as MessagePack (https://msgpack.org), mapping values the way `JSON.stringify`
+ * would, except that dates use the timestamp extension, byte arrays and other `ArrayBuffer`
+ * views become binary, and `bigint`s become 64-bit integers.
+ */
+export function encodeMessagePack(value: unknown): Uint8Array {
+    const writer = new Writer();
+    write(writer, value, new Set());
+    return writer.result();
+}
+
+/** Writes a MessagePack array header; the caller writes `length` values after it. */
+export function encodeArrayHeader(length: number): Uint8Array {
+    const writer = new Writer();
+    writeHeader(writer, length, 0x90, 0xdc);
+    return writer.result();
+}
+
+function write(writer: Writer, value: unknown, seen: Set<object>): void {
+    switch (typeof value) {
+        case 'boolean':
+            writer.u8(value ? 0xc3 : 0xc2);
+            return;
+        case 'number':
+            writeNumber(writer, value);
+            return;
+        case 'bigint':
+            writeBigInt(writer, value);
+            return;
+        case 'string':
+            writeString(writer, value);
+            return;
+        case 'object':
+            if (value !== null) {
+                writeObject(writer, value, seen);
+                return;
+            }
+    }
+    // null, undefined, functions and symbols.
+    writer.u8(0xc0);
+}
+
+function writeNumber(writer: Writer, value: number): void {
+    if (!Number.isSafeInteger(value)) {
+        writer.u8(0xcb);
+        writer.f64(value);
+    } else if (value >= 0) {
+        if (value < 0x80) {
+            writer.u8(value);
+        } else if (value <= 0xff) {
+            writer.u8(0xcc);
+            writer.u8(value);
+        } else if (value <= 0xffff) {
+            writer.u8(0xcd);
+            writer.u16(value);
+        } else if (value <= 0xffffffff) {
+            writer.u8(0xce);
+            writer.u32(value);
+        } else {
+            writer.u8(0xcf);
+            writer.u64(BigInt(value));
+        }
+    } else if (value >= -0x20) {
+        writer.i8(value);
+    } else if (value >= -0x80) {
+        writer.u8(0xd0);
+        writer.i8(value);
+    } else if (value >= -0x8000) {
+        writer.u8(0xd1);
+        writer.i16(value);
+    } else if (value >= -0x80000000) {
+        writer.u8(0xd2);
+        writer.i32(value);
+    } else {
+        writer.u8(0xd3);
+        writer.i64(BigInt(value));
+    }
+}
+
+function writeBigInt(writer: Writer, value: bigint): void {
+    if (value >= BigInt(0) && value <= BigInt('0xffffffffffffffff')) {
+        writer.u8(0xcf);
+        writer.u64(value);
+    } else if (value < BigInt(0) && value >= -BigInt('0x8000000000000000')) {
+        writer.u8(0xd3);
+        writer.i64(value);
+    } else {
+        throw new RangeError(`${value} does not fit in a 64-bit MessagePack integer.`);
+    }
+}
+
+function writeString(writer: Writer, value: string): void {
+    const bytes = textEncoder.encode(value);
+    if (bytes.length < 0x20) {
+        writer.u8(0xa0 | bytes.length);
+    } else if (bytes.length <= 0xff) {
+        writer.u8(0xd9);
+        writer.u8(bytes.length);
+    } else if (bytes.length <= 0xffff) {
+        writer.u8(0xda);
+        writer.u16(bytes.length);
+    } else {
+        writer.u8(0xdb);
+        writer.u32(bytes.length);
+    }
+    writer.raw(bytes);
+}
+
+function writeBinary(writer: Writer, bytes: Uint8Array): void {
+    if (bytes.length <= 0xff) {
+        writer.u8(0xc4);
+        writer.u8(bytes.length);
+    } else if (bytes.length <= 0xffff) {
+        writer.u8(0xc5);
+        writer.u16(bytes.length);
+    } else {
+        writer.u8(0xc6);
+        writer.u32(bytes.length);
+    }
+    writer.raw(bytes);
+}
+
+function writeTimestamp(writer: Writer, date: Date): void {
+    const ms = date.getTime();
+    const seconds = Math.floor(ms / 1000);
+    const nanoseconds = (ms - seconds * 1000) * 1_000_000;
+    if (seconds >= 0 && seconds < 2 ** 34) {
+        if (nanoseconds === 0 && seconds < 2 ** 32) {
+            // timestamp 32
+            writer.u8(0xd6);
+            writer.i8(TIMESTAMP_EXTENSION);
+            writer.u32(seconds);
+        } else {
+            // timestamp 64: 30 bits of nanoseconds, then 34 bits of seconds
+            writer.u8(0xd7);
+            writer.i8(TIMESTAMP_EXTENSION);
+            writer.u32(nanoseconds * 4 + Math.floor(seconds / 2 ** 32));
+            writer.u32(seconds >>> 0);
+        }
+    } else {
+        // timestamp 96, for dates before 1970 or after 2514
+        writer.u8(0xc7);
+        writer.u8(12);
+        writer.i8(TIMESTAMP_EXTENSION);
+        writer.u32(nanoseconds);
+        writer.i64(BigInt(seconds));
+    }
+}
+
+function writeHeader(writer: Writer, length: number, fix: number, wide: number): void {
+    if (length < 16) {
+        writer.u8(fix | length);
+    } else if (length <= 0xffff) {
+        writer.u8(wide);
+        writer.u16(length);
+    } else {
+        writer.u8(wide + 1);
+        writer.u32(length);
+    }
+}
+
+function writeObject(writer: Writer, value: object, seen: Set<object>): void {
+    if (value instanceof Date) {
+        if (isNaN(value.getTime())) {
+            // Matches JSON, where an invalid date serializes as null.
+            writer.u8(0xc0);
+        } else {
+            writeTimestamp(writer, value);
+        }
+        return;
+    }
+    if (value instanceof Uint8Array) {
+        writeBinary(writer, value);
+        return;
+    }
+    if (value instanceof ArrayBuffer) {
+        writeBinary(writer, new Uint8Array(value));
+        return;
+    }
+    if (ArrayBuffer.isView(value)) {
+        writeBinary(writer, new Uint8Array(value.buffer, value.byteOffset, value.byteLength));
+        return;
+    }
+    if (seen.has(value)) {
+        throw new TypeError('Cannot encode a circular structure as MessagePack.');
+    }
+
+    seen.add(value);
+    try {
+        if (Array.isArray(value)) {
+            writeHeader(writer, value.length, 0x90, 0xdc);
+            value.forEach(item => write(writer, item, seen));
+        } else if (typeof (value as { toJSON?: unknown }).toJSON === 'function') {
+            write(writer, (value as { toJSON: () => unknown }).toJSON(), seen);
+        } else {
+            // Like JSON, leave out properties that have no representation.
+            const entries = Object.entries(value).filter(([, item]) =>
+                item !== undefined && typeof item !== 'function' && typeof item !== 'symbol');
+            writeHeader(writer, entries.length, 0x80, 0xde);
+            for (const [key, item] of entries) {
+                writeString(writer, key);
+                write(writer, item, seen);
+            }
+        }
+    } finally {
+        seen.delete(value);
+    }
+}
+
+class Reader {
+    private offset = 0;
+    private readonly view: DataView;
+
+    constructor(private readonly bytes: Uint8Array) {
+        this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    }
+
+    get done(): boolean {
+        return this.offset >= this.bytes.length;
+    }
+
+    u8(): number {
+        return this.view.getUint8(this.advance(1));
+    }
+
+    u16(): number {
+        return this.view.getUint16(this.advance(2));
+    }
+
+    u32(): number {
+        return this.view.getUint32(this.advance(4));
+    }
+
+    u64(): number | bigint {
+        return narrow(this.view.getBigUint64(this.advance(8)));
+    }
+
+    i8(): number {
+        return this.view.getInt8(this.advance(1));
+    }
+
+    i16(): number {
+        return this.view.getInt16(this.advance(2));
+    }
+
+    i32(): number {
+        return this.view.getInt32(this.advance(4));
+    }
+
+    i64(): number | bigint {
+        return narrow(this.view.getBigInt64(this.advance(8)));
+    }
+
+    f32(): number {
+        return this.view.getFloat32(this.advance(4));
+    }
+
+    f64(): number {
+        return this.view.getFloat64(this.advance(8));
+    }
+
+    raw(length: number): Uint8Array {
+        const start = this.advance(length);
+        return this.bytes.slice(start, start + length);
+    }
+
+    private advance(count: number): number {
+        if (this.offset + count > this.bytes.length) {
+            throw new RangeError('MessagePack data ended unexpectedly.');
+        }
+        const start = this.offset;
+        this.offset += count;
+        return start;
+    }
+}
+
+/** Decodes a single MessagePack value. Binary decodes as `Uint8Array`, and timestamps as `Date`. */
+export function decodeMessagePack(bytes: Uint8Array): unknown {
+    const reader = new Reader(bytes);
+    const value = read(reader);
+    if (!reader.done) {
+        throw new RangeError('MessagePack data has trailing bytes.');
+    }
+    return value;
+}
+
+function read(reader: Reader): unknown {
+    const type = reader.u8();
+    if (type < 0x80) {
+        return type;
+    }
+    if (type < 0x90) {
+        return readMap(reader, type & 0x0f);
+    }
+    if (type < 0xa0) {
+        return readArray(reader, type & 0x0f);
+    }
+    if (type < 0xc0) {
+        return textDecoder.decode(reader.raw(type & 0x1f));
+    }
+    if (type >= 0xe0) {
+        return type - 0x100;
+    }
+
+    switch (type) {
+        case 0xc0: return null;
+        case 0xc2: return false;
+        case 0xc3: return true;
+        case 0xc4: return reader.raw(reader.u8());
+        case 0xc5: return reader.raw(reader.u16());
+        case 0xc6: return reader.raw(reader.u32());
+        case 0xc7: return readExtension(reader, reader.u8());
+        case 0xc8: return readExtension(reader, reader.u16());
+        case 0xc9: return readExtension(reader, reader.u32());
+        case 0xca: return reader.f32();
+        case 0xcb: return reader.f64();
+        case 0xcc: return reader.u8();
+        case 0xcd: return reader.u16();
+        case 0xce: return reader.u32();
+        case 0xcf: return reader.u64();
+        case 0xd0: return reader.i8();
+        case 0xd1: return reader.i16();
+        case 0xd2: return reader.i32();
+        case 0xd3: return reader.i64();
+        case 0xd4: return readExtension(reader, 1);
+        case 0xd5: return readExtension(reader, 2);
+        case 0xd6: return readExtension(reader, 4);
+        case 0xd7: return readExtension(reader, 8);
+        case 0xd8: return readExtension(reader, 16);
+        case 0xd9: return textDecoder.decode(reader.raw(reader.u8()));
+        case 0xda: return textDecoder.decode(reader.raw(reader.u16()));
+        case 0xdb: return textDecoder.decode(reader.raw(reader.u32()));
+        case 0xdc: return readArray(reader, reader.u16());
+        case 0xdd: return readArray(reader, reader.u32());
+        case 0xde: return readMap(reader, reader.u16());
+        case 0xdf: return readMap(reader, reader.u32());
+        default:
+            throw new TypeError(`Unknown MessagePack type 0x${type.toString(16)}.`);
+    }
+}
+
+function readArray(reader: Reader, length: number): unknown[] {
+    const items: unknown[] = [];
+    for (let i = 0; i < length; i++) {
+        items.push(read(reader));
+    }
+    return items;
+}
+
+function readMap(reader: Reader, length: number): Record<string, unknown> {
+    const map: Record<string, unknown> = {};
+    for (let i = 0; i < length; i++) {
+        const key = String(read(reader));
+        // defineProperty, so a `__proto__` key is kept as data rather than replacing the prototype.
+        Object.defineProperty(map, key, { value: read(reader), enumerable: true, writable: true, configurable: true });
+    }
+    return map;
+}
+
+function readExtension(reader: Reader, length: number): Date {
+    const type = reader.i8();
+    if (type !== TIMESTAMP_EXTENSION) {
+        throw new TypeError(`Unsupported MessagePack extension type ${type}.`);
+    }
+    switch (length) {
+        case 4:
+            return new Date(reader.u32() * 1000);
+        case 8: {
+            const high = reader.u32();
+            const low = reader.u32();
+            const seconds = (high & 0x3) * 2 ** 32 + low;
+            return new Date(seconds * 1000 + Math.floor((high >>> 2) / 1_000_000));
+        }
+        case 12: {
+            const nanoseconds = reader.u32();
+            return new Date(Number(reader.i64()) * 1000 + Math.floor(nanoseconds / 1_000_000));
+        }
+        default:
+            throw new RangeError(`Invalid MessagePack timestamp length ${length}.`);
+    }
+}
+
+/** 64-bit integers come back as numbers when they fit exactly, and as `bigint`s otherwise. */
+function narrow(value: bigint): number | bigint {
+    return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(value) : value;
+}
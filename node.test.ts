@@ -0,0 +1,92 @@
+import { gunzipSync } from 'zlib';
+import { NexusClient } from './index';
+import { registerShutdownHooks } from './node';
+
+describe('registerShutdownHooks', () => {
+  let mockFetch: jest.Mock;
+  let client: NexusClient;
+  let unregister: (() => void) | undefined;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue(new Response('OK', { status: 200 }));
+    client = new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch
+    });
+  });
+
+  afterEach(() => {
+    unregister?.();
+    unregister = undefined;
+    jest.restoreAllMocks();
+  });
+
+  it('should register and remove process listeners', () => {
+    const before = {
+      beforeExit: process.listenerCount('beforeExit'),
+      SIGTERM: process.listenerCount('SIGTERM'),
+      SIGINT: process.listenerCount('SIGINT')
+    };
+
+    unregister = registerShutdownHooks(client);
+    expect(process.listenerCount('beforeExit')).toBe(before.beforeExit + 1);
+    expect(process.listenerCount('SIGTERM')).toBe(before.SIGTERM + 1);
+    expect(process.listenerCount('SIGINT')).toBe(before.SIGINT + 1);
+
+    unregister();
+    expect(process.listenerCount('beforeExit')).toBe(before.beforeExit);
+    expect(process.listenerCount('SIGTERM')).toBe(before.SIGTERM);
+    expect(process.listenerCount('SIGINT')).toBe(before.SIGINT);
+  });
+
+  it('should flush buffered events before the process exits', async () => {
+    const onClose = jest.fn();
+    unregister = registerShutdownHooks(client, { signals: [], onClose });
+
+    client.track({ type: 'job.finished' });
+    process.emit('beforeExit', 0);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(onClose).toHaveBeenCalledWith({ delivered: 1, failed: 0, dropped: 0, timedOut: false });
+    expect(client.closed).toBe(true);
+  });
+
+  it('should close the client and re-raise the signal on SIGTERM', async () => {
+    const kill = jest.spyOn(process, 'kill').mockImplementation(() => true);
+    const onClose = jest.fn();
+    unregister = registerShutdownHooks(client, { signals: ['SIGTERM'], beforeExit: false, onClose });
+
+    client.track({ type: 'job.interrupted' });
+    process.emit('SIGTERM', 'SIGTERM');
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(onClose).toHaveBeenCalledWith({ delivered: 1, failed: 0, dropped: 0, timedOut: false });
+    expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM');
+  });
+});
+
+describe('zlib compression', () => {
+  const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'CompressionStream')!;
+
+  beforeEach(() => {
+    delete (globalThis as any).CompressionStream;
+  });
+
+  afterEach(() => {
+    Object.defineProperty(globalThis, 'CompressionStream', descriptor);
+  });
+
+  it('should compress without CompressionStream', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(new Response('OK', { status: 200 }));
+    const client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, compression: true });
+    const events = [{ type: 'bulk', payload: 'x'.repeat(2000) }];
+
+    await client.send(events);
+
+    const init = mockFetch.mock.calls[0][1];
+    expect(init.headers['Content-Encoding']).toBe('gzip');
+    expect(gunzipSync(init.body).toString()).toBe(JSON.stringify(events));
+  });
+});
@@ -0,0 +1,73 @@
+import * as zlib from 'zlib';
+import { CompressionAlgorithm, registerCompressor } from './compression';
+import type { CloseSummary, NexusClient } from './index';
+
+export interface ShutdownHookOptions {
+    /** How long to wait for buffered events before letting the process exit. */
+    timeoutMs?: number;
+    signals?: NodeJS.Signals[];
+    /** Also drain when the event loop empties (`beforeExit`). */
+    beforeExit?: boolean;
+    onClose?: (summary: CloseSummary) => void;
+}
+
+export function registerShutdownHooks(client: NexusClient, options: ShutdownHookOptions = {}): () => void {
+    const timeoutMs = options.timeoutMs ?? 5000;
+    const signals = options.signals ?? ['SIGTERM', 'SIGINT'];
+
+    const close = async () => {
+        const summary = await client.close({ timeoutMs });
+        options.onClose?.(summary);
+        return summary;
+    };
+
+    const onBeforeExit = () => {
+        unregister();
+        close().catch(() => undefined);
+    };
+
+    const onSignal = (signal: NodeJS.Signals) => {
+        unregister();
+        close().catch(() => undefined).finally(() => {
+            // Adding a listener disables Node's default exit-on-signal, so re-raise it
+            // unless the application has its own handler.
+            if (process.listenerCount(signal) === 0) {
+                process.kill(process.pid, signal);
+            }
+        });
+    };
+
+    const unregister = () => {
+        process.removeListener('beforeExit', onBeforeExit);
+        for (const signal of signals) {
+            process.removeListener(signal, onSignal);
+        }
+    };
+
+    if (options.beforeExit !== false) {
+        process.once('beforeExit', onBeforeExit);
+    }
+    for (const signal of signals) {
+        process.once(signal, onSignal);
+    }
+
+    return unregister;
+}
+
+// For runtimes without CompressionStream.
+registerCompressor(zlibCompress);
+
+function zlibCompress(body: string | Uint8Array, algorithm: CompressionAlgorithm): Promise<Uint8Array> {
+    return new Promise((resolve, reject) => {
+        const done = (error: Error | null, result: Buffer) => (error ? reject(error) : resolve(new Uint8Array(result)));
+        if (algorithm === 'gzip') {
+            zlib.gzip(body, done);
+        } else {
+            zlib.deflate(body, done);
+        }
+    });
+}
+
+export { FileOutbox, FileOutboxOptions } from './outbox';
+export { FileDeadLetterSink, FileDeadLetterSinkOptions, DeadLetterRecord } from './filesink';
+export { HttpTransport, HttpTransportOptions } from './httptransport';
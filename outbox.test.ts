@@ -0,0 +1,209 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { NexusCircuitOpenError, NexusClient, NexusEvent } from './index';
+import { FileOutbox } from './outbox';
+
+describe('FileOutbox', () => {
+  let directory: string;
+  let mockFetch: jest.Mock;
+  let client: NexusClient;
+  let outboxes: FileOutbox[];
+
+  const ok = () => new Response('OK', { status: 200 });
+  const down = () => new Response('down', { status: 503 });
+  const sentBodies = () => mockFetch.mock.calls.map(call => JSON.parse(call[1].body));
+  const segments = async () => (await fs.readdir(directory)).filter(name => name.endsWith('.wal')).sort();
+
+  const createOutbox = (options: Partial<ConstructorParameters<typeof FileOutbox>[1]> = {}) => {
+    const outbox = new FileOutbox(client, { directory, flushIntervalMs: 60000, ...options });
+    outboxes.push(outbox);
+    return outbox;
+  };
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nexus-outbox-'));
+    mockFetch = jest.fn().mockImplementation(async () => ok());
+    client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch });
+    outboxes = [];
+  });
+
+  afterEach(async () => {
+    for (const outbox of outboxes) {
+      await outbox.close();
+    }
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('should write events to disk before sending them', async () => {
+    mockFetch.mockImplementation(async () => down());
+    const outbox = createOutbox();
+
+    await outbox.append({ type: 'order.placed', orderId: 1 });
+
+    const [segment] = await segments();
+    const content = await fs.readFile(path.join(directory, segment), 'utf8');
+    expect(content).toContain('"order.placed"');
+    expect(outbox.pending).toBe(1);
+  });
+
+  it('should send and acknowledge entries on flush', async () => {
+    const outbox = createOutbox();
+
+    await outbox.append([{ type: 'a' }, { type: 'b' }]);
+    await outbox.append({ type: 'c' });
+    await outbox.flush();
+
+    expect(sentBodies()).toEqual([[{ type: 'a' }, { type: 'b' }, { type: 'c' }]]);
+    expect(outbox.pending).toBe(0);
+  });
+
+  it('should replay unacknowledged events after a restart', async () => {
+    mockFetch.mockImplementation(async () => down());
+    const crashed = createOutbox();
+    await crashed.append({ type: 'survivor' });
+    await crashed.flush().catch(() => undefined);
+    await crashed.close();
+
+    mockFetch.mockImplementation(async () => ok());
+    const restarted = createOutbox();
+    await expect(restarted.open()).resolves.toBe(1);
+    await restarted.flush();
+
+    expect(sentBodies().pop()).toEqual([{ type: 'survivor' }]);
+    expect(restarted.pending).toBe(0);
+  });
+
+  it('should replay entries with the same event ids and idempotency key', async () => {
+    client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, retry: false, idempotency: true });
+    mockFetch.mockImplementationOnce(async () => down());
+    const crashed = createOutbox();
+    await crashed.append({ type: 'survivor' });
+    await expect(crashed.flush()).rejects.toMatchObject({ status: 503 });
+    await crashed.close();
+
+    const restarted = createOutbox();
+    await restarted.open();
+    await restarted.flush();
+
+    const [first, second] = mockFetch.mock.calls.map(call => call[1]);
+    expect(second.body).toBe(first.body);
+    expect(JSON.parse(first.body)[0].id).toEqual(expect.any(String));
+    expect(second.headers['Idempotency-Key']).toBe(first.headers['Idempotency-Key']);
+  });
+
+  it('should not replay acknowledged events', async () => {
+    const first = createOutbox();
+    await first.append({ type: 'delivered' });
+    await first.flush();
+    await first.close();
+
+    const second = createOutbox();
+    await expect(second.open()).resolves.toBe(0);
+  });
+
+  it('should ignore a torn last line left by a crash', async () => {
+    await fs.writeFile(
+      path.join(directory, 'segment-000000000001.wal'),
+      JSON.stringify({ op: 'add', id: 1, events: [{ type: 'intact' }] }) + '\n{"op":"add","id":2,"ev'
+    );
+
+    const outbox = createOutbox();
+    await expect(outbox.open()).resolves.toBe(1);
+    await outbox.flush();
+
+    expect(sentBodies()).toEqual([[{ type: 'intact' }]]);
+  });
+
+  it('should compact fully acknowledged segments', async () => {
+    const outbox = createOutbox({ maxSegmentBytes: 200 });
+
+    for (let i = 0; i < 10; i++) {
+      await outbox.append({ type: 'event', index: i, padding: 'x'.repeat(50) });
+    }
+    expect((await segments()).length).toBeGreaterThan(2);
+
+    await outbox.flush();
+
+    expect((await segments()).length).toBe(1);
+  });
+
+  it('should drop the oldest segments beyond maxTotalBytes', async () => {
+    mockFetch.mockImplementation(async () => down());
+    const onDrop = jest.fn();
+    const outbox = createOutbox({ maxSegmentBytes: 150, maxTotalBytes: 400, onDrop });
+
+    for (let i = 0; i < 10; i++) {
+      await outbox.append({ type: 'event', index: i, padding: 'x'.repeat(50) });
+    }
+
+    const sizes = await Promise.all((await segments()).map(name => fs.stat(path.join(directory, name))));
+    expect(sizes.reduce((total, stat) => total + stat.size, 0)).toBeLessThanOrEqual(400);
+    expect(onDrop).toHaveBeenCalled();
+    expect(onDrop.mock.calls[0][0][0]).toMatchObject({ type: 'event', index: 0 });
+    expect(outbox.pending).toBeLessThan(10);
+  });
+
+  it('should split replays into batches of maxBatchEvents', async () => {
+    const outbox = createOutbox({ maxBatchEvents: 2 });
+    mockFetch.mockImplementation(async () => down());
+    await outbox.append([{ type: 'a' }]);
+    await outbox.append([{ type: 'b' }]);
+    await outbox.append([{ type: 'c' }]);
+    await outbox.flush().catch(() => undefined);
+
+    mockFetch.mockReset().mockImplementation(async () => ok());
+    await outbox.flush();
+
+    expect(sentBodies()).toEqual([[{ type: 'a' }, { type: 'b' }], [{ type: 'c' }]]);
+  });
+
+  it('should move past entries the endpoint refuses for good', async () => {
+    const onDeadLetter = jest.fn();
+    const onError = jest.fn();
+    client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch, onDeadLetter });
+    mockFetch.mockImplementationOnce(async () => new Response('bad', { status: 400 }));
+    const outbox = createOutbox({ onError });
+
+    await outbox.append({ type: 'rejected' });
+    await outbox.flush();
+    await outbox.append({ type: 'next' });
+    await outbox.flush();
+
+    expect(sentBodies()).toEqual([[{ type: 'rejected' }], [{ type: 'next' }]]);
+    expect(onDeadLetter).toHaveBeenCalledWith([{ type: 'rejected' }], expect.objectContaining({ status: 400 }));
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ status: 400 }));
+    expect(outbox.pending).toBe(0);
+    await outbox.close();
+
+    await expect(createOutbox().open()).resolves.toBe(0);
+  });
+
+  it('should keep entries in the log while the circuit is open when it is the fallback', async () => {
+    mockFetch.mockImplementation(async () => down());
+    const fallback = jest.fn((events: NexusEvent[]) => outbox.append(events));
+    client = new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch,
+      retry: false,
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 60000, fallback }
+    });
+    const outbox = createOutbox();
+    await client.send({ type: 'opens-circuit' }).catch(() => undefined);
+
+    await client.send({ type: 'diverted' });
+    await expect(outbox.flush()).rejects.toBeInstanceOf(NexusCircuitOpenError);
+
+    expect(fallback).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(outbox.pending).toBe(1);
+  });
+
+  it('should reject appends after close', async () => {
+    const outbox = createOutbox();
+    await outbox.close();
+
+    await expect(outbox.append({ type: 'late' })).rejects.toThrow('FileOutbox is closed.');
+  });
+});
@@ -0,0 +1,359 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { isUndeliverable } from './deadletter';
+import { NexusError } from './errors';
+import type { NexusClient, NexusEvent } from './index';
+import { validateEvent } from './validation';
+
+export interface FileOutboxOptions {
+    /** Directory holding the write-ahead log segments. Created if missing. */
+    directory: string;
+    /** Start a new segment once the current one reaches this size. */
+    maxSegmentBytes?: number;
+    /** Cap on total log size; the oldest segments are dropped beyond it. */
+    maxTotalBytes?: number;
+    /** Most events sent in one request when draining the log. */
+    maxBatchEvents?: number;
+    /** How often pending entries are flushed in the background. */
+    flushIntervalMs?: number;
+    /** fsync every write; slower, but survives power loss as well as crashes. */
+    fsync?: boolean;
+    /**
+     * Called when a background flush fails; entries stay in the log. Also called when the endpoint
+     * refuses entries for good: those leave the log and reach the client's `onDeadLetter` instead.
+     */
+    onError?: (error: unknown) => void;
+    /** Called with events discarded to honour `maxTotalBytes`. */
+    onDrop?: (events: NexusEvent[]) => void;
+}
+
+interface Entry {
+    id: number;
+    segment: number;
+    /** Batch key generated on append, when the client uses `idempotency`. */
+    key?: string;
+    events: NexusEvent[];
+}
+
+interface Segment {
+    seq: number;
+    bytes: number;
+    live: Set<number>;
+}
+
+type LogRecord = { op: 'add'; id: number; key?: string; events: NexusEvent[] } | { op: 'ack'; ids: number[] };
+
+const SEGMENT_PATTERN = /^segment-(\d+)\.wal$/;
+
+/** Entries a failed send still settled: delivered, or refused for good and dead-lettered by the client. */
+function settledEntries(batch: Entry[], error: unknown): Entry[] {
+    const partial = error instanceof NexusError ? error.partial : undefined;
+    if (!partial) {
+        return isUndeliverable(error) ? batch : [];
+    }
+    const unsent = new Set(partial.unsent);
+    let offset = 0;
+    return batch.filter(entry => {
+        const start = offset;
+        offset += entry.events.length;
+        return entry.events.every((_, index) => !unsent.has(start + index));
+    });
+}
+
+/**
+ * The same for every replay of the same entries. Drains take runs from the front of the log and
+ * entries only ever leave it, so the first and last entry and their count pin a run down.
+ */
+function replayKey(batch: Entry[]): string | undefined {
+    const first = batch[0].key;
+    const last = batch[batch.length - 1].key;
+    if (!first || !last) {
+        return undefined;
+    }
+    return batch.length === 1 ? first : `${first}-${last}-${batch.length}`;
+}
+
+function segmentName(seq: number): string {
+    return `segment-${String(seq).padStart(12, '0')}.wal`;
+}
+
+export class FileOutbox {
+    private readonly directory: string;
+    private readonly maxSegmentBytes: number;
+    private readonly maxTotalBytes: number;
+    private readonly maxBatchEvents: number;
+    private readonly flushIntervalMs: number;
+
+    private readonly entries = new Map<number, Entry>();
+    private segments: Segment[] = [];
+    private nextId = 1;
+    private handle?: fs.FileHandle;
+    private writes: Promise<unknown> = Promise.resolve();
+    private ready?: Promise<number>;
+    private inFlight?: Promise<void>;
+    private timer?: ReturnType<typeof setTimeout>;
+    private closed = false;
+
+    constructor(private readonly client: NexusClient, private readonly options: FileOutboxOptions) {
+        this.directory = options.directory;
+        this.maxTotalBytes = Math.max(1, options.maxTotalBytes ?? 50 * 1024 * 1024);
+        this.maxSegmentBytes = Math.min(this.maxTotalBytes, Math.max(1, options.maxSegmentBytes ?? 1024 * 1024));
+        this.maxBatchEvents = Math.max(1, options.maxBatchEvents ?? 100);
+        this.flushIntervalMs = Math.max(0, options.flushIntervalMs ?? 5000);
+    }
+
+    /** Number of events written to the log but not yet acknowledged by the endpoint. */
+    get pending(): number {
+        let count = 0;
+        for (const entry of this.entries.values()) {
+            count += entry.events.length;
+        }
+        return count;
+    }
+
+    /** Loads the log and starts replaying leftovers. Resolves with the number of recovered events. */
+    open(): Promise<number> {
+        if (!this.ready) {
+            this.ready = this.load();
+        }
+        return this.ready;
+    }
+
+    async append(events: NexusEvent | NexusEvent[]): Promise<void> {
+        if (this.closed) {
+            throw new Error("FileOutbox is closed.");
+        }
+        const payload = Array.isArray(events) ? events : [events];
+        payload.forEach((event, index) => validateEvent(event, index));
+        if (payload.length === 0) {
+            return;
+        }
+
+        await this.open();
+        const id = this.nextId++;
+        // Stamped before they reach the log, so every replay carries the same event ids and key.
+        const batch = this.client.stampEventIds(payload);
+        const key = this.client.idempotencyKey();
+        await this.write({ op: 'add', id, key, events: batch }, { id, key, events: batch });
+
+        if (this.pending >= this.maxBatchEvents) {
+            this.flushInBackground();
+        } else {
+            this.schedule();
+        }
+    }
+
+    flush(): Promise<void> {
+        if (!this.inFlight) {
+            this.clearTimer();
+            this.inFlight = this.drain().finally(() => {
+                this.inFlight = undefined;
+                if (this.entries.size > 0) {
+                    this.schedule();
+                }
+            });
+        }
+        return this.inFlight;
+    }
+
+    /** Flushes what it can and releases the log. Unacknowledged entries are replayed on the next `open()`. */
+    async close(): Promise<void> {
+        if (this.closed) {
+            return;
+        }
+        await this.open();
+        await this.flush().catch(() => undefined);
+        this.closed = true;
+        this.clearTimer();
+        await this.writes;
+        await this.handle?.close();
+        this.handle = undefined;
+    }
+
+    private async load(): Promise<number> {
+        await fs.mkdir(this.directory, { recursive: true });
+        const files = (await fs.readdir(this.directory))
+            .map(name => ({ name, match: SEGMENT_PATTERN.exec(name) }))
+            .filter(file => file.match)
+            .map(file => ({ name: file.name, seq: Number(file.match![1]) }))
+            .sort((a, b) => a.seq - b.seq);
+
+        for (const file of files) {
+            const content = await fs.readFile(path.join(this.directory, file.name), 'utf8');
+            const segment: Segment = { seq: file.seq, bytes: Buffer.byteLength(content), live: new Set() };
+            this.segments.push(segment);
+
+            for (const line of content.split('\n')) {
+                const record = this.parse(line);
+                if (record?.op === 'add') {
+                    this.entries.set(record.id, { id: record.id, segment: segment.seq, key: record.key, events: record.events });
+                    segment.live.add(record.id);
+                    this.nextId = Math.max(this.nextId, record.id + 1);
+                } else if (record?.op === 'ack') {
+                    record.ids.forEach(id => this.forget(id));
+                }
+            }
+        }
+
+        // Always append to a fresh segment so a torn last line can never be extended.
+        await this.rotate();
+        await this.compact();
+
+        const recovered = this.pending;
+        if (recovered > 0) {
+            this.flushInBackground();
+        }
+        return recovered;
+    }
+
+    private parse(line: string): LogRecord | undefined {
+        if (!line.trim()) {
+            return undefined;
+        }
+        try {
+            return JSON.parse(line) as LogRecord;
+        } catch {
+            // A crash mid-write leaves a partial last line; that entry was never acknowledged to the caller.
+            return undefined;
+        }
+    }
+
+    private async drain(): Promise<void> {
+        await this.open();
+        while (this.entries.size > 0) {
+            const batch: Entry[] = [];
+            let count = 0;
+            for (const entry of this.entries.values()) {
+                if (batch.length > 0 && count + entry.events.length > this.maxBatchEvents) {
+                    break;
+                }
+                batch.push(entry);
+                count += entry.events.length;
+            }
+
+            let settled = batch;
+            let failed = false;
+            let failure: unknown;
+            try {
+                // The outbox is often the circuit breaker's fallback, which would write the events straight back.
+                await this.client.send(batch.flatMap(entry => entry.events), { fallback: false, idempotencyKey: replayKey(batch) });
+            } catch (error) {
+                failed = true;
+                failure = error;
+                settled = settledEntries(batch, error);
+            }
+
+            if (settled.length > 0) {
+                const ids = settled.map(entry => entry.id);
+                await this.write({ op: 'ack', ids });
+                ids.forEach(id => this.forget(id));
+                await this.compact();
+            }
+            if (failed) {
+                if (settled.length < batch.length) {
+                    throw failure;
+                }
+                // Entries refused for good would otherwise block the rest of the log forever.
+                this.options.onError?.(failure);
+            }
+        }
+    }
+
+    /** Runs log mutations one at a time so rotation, compaction and appends never interleave. */
+    private serialize(task: () => Promise<void>): Promise<void> {
+        const run = this.writes.then(task);
+        // Keep the chain alive after a failed task so later writes still run.
+        this.writes = run.catch(() => undefined);
+        return run;
+    }
+
+    private write(record: LogRecord, entry?: Omit<Entry, 'segment'>): Promise<void> {
+        return this.serialize(async () => {
+            const line = JSON.stringify(record) + '\n';
+            const bytes = Buffer.byteLength(line);
+            let current = this.segments[this.segments.length - 1];
+            if (current.bytes > 0 && current.bytes + bytes > this.maxSegmentBytes) {
+                await this.rotate();
+                current = this.segments[this.segments.length - 1];
+            }
+
+            await this.handle!.appendFile(line, 'utf8');
+            if (this.options.fsync) {
+                await this.handle!.datasync();
+            }
+            current.bytes += bytes;
+
+            if (entry) {
+                this.entries.set(entry.id, { ...entry, segment: current.seq });
+                current.live.add(entry.id);
+            }
+            await this.enforceLimit();
+        });
+    }
+
+    private async rotate(): Promise<void> {
+        const last = this.segments[this.segments.length - 1];
+        const seq = last ? last.seq + 1 : 1;
+        await this.handle?.close();
+        this.handle = await fs.open(path.join(this.directory, segmentName(seq)), 'a');
+        this.segments.push({ seq, bytes: 0, live: new Set() });
+    }
+
+    private forget(id: number): void {
+        const entry = this.entries.get(id);
+        if (entry) {
+            this.entries.delete(id);
+            this.segments.find(segment => segment.seq === entry.segment)?.live.delete(id);
+        }
+    }
+
+    /** Deletes leading segments whose entries have all been acknowledged. */
+    private compact(): Promise<void> {
+        return this.serialize(async () => {
+            while (this.segments.length > 1 && this.segments[0].live.size === 0) {
+                await this.removeOldest();
+            }
+        });
+    }
+
+    private async enforceLimit(): Promise<void> {
+        let total = this.segments.reduce((sum, segment) => sum + segment.bytes, 0);
+        while (total > this.maxTotalBytes && this.segments.length > 1) {
+            const oldest = this.segments[0];
+            const dropped = [...oldest.live].flatMap(id => this.entries.get(id)?.events ?? []);
+            oldest.live.forEach(id => this.entries.delete(id));
+            total -= oldest.bytes;
+            await this.removeOldest();
+            if (dropped.length > 0) {
+                this.options.onDrop?.(dropped);
+            }
+        }
+    }
+
+    private async removeOldest(): Promise<void> {
+        const oldest = this.segments.shift()!;
+        await fs.unlink(path.join(this.directory, segmentName(oldest.seq))).catch(() => undefined);
+    }
+
+    private flushInBackground(): void {
+        this.flush().catch(error => this.options.onError?.(error));
+    }
+
+    private schedule(): void {
+        if (this.timer || this.inFlight || this.closed) {
+            return;
+        }
+        this.timer = setTimeout(() => {
+            this.timer = undefined;
+            this.flushInBackground();
+        }, this.flushIntervalMs);
+        (this.timer as { unref?: () => void }).unref?.();
+    }
+
+    private clearTimer(): void {
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = undefined;
+        }
+    }
+}
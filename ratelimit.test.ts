@@ -0,0 +1,74 @@
+import { RateLimiter } from './ratelimit';
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should let a burst through without waiting', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2, burstRequests: 3 });
+
+    for (let i = 0; i < 3; i++) {
+      await limiter.acquire(1);
+    }
+
+    expect(limiter.state()).toEqual({ queued: 0, waitMs: 0 });
+  });
+
+  it('should queue requests beyond the request rate in order', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 2 });
+    const order: number[] = [];
+
+    const acquired = [1, 2, 3, 4].map(n => limiter.acquire(1).then(() => order.push(n)));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(order).toEqual([1, 2]);
+    expect(limiter.state()).toEqual({ queued: 2, waitMs: 1000 });
+
+    await jest.advanceTimersByTimeAsync(500);
+    expect(order).toEqual([1, 2, 3]);
+
+    await jest.advanceTimersByTimeAsync(500);
+    await Promise.all(acquired);
+    expect(order).toEqual([1, 2, 3, 4]);
+    expect(limiter.state().queued).toBe(0);
+  });
+
+  it('should wait for the event budget to refill', async () => {
+    const limiter = new RateLimiter({ eventsPerSecond: 100 });
+    await limiter.acquire(100);
+
+    let done = false;
+    const pending = limiter.acquire(50).then(() => { done = true; });
+    await jest.advanceTimersByTimeAsync(499);
+    expect(done).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await pending;
+    expect(done).toBe(true);
+  });
+
+  it('should wait for whichever budget is further behind', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10, eventsPerSecond: 10 });
+    await limiter.acquire(10);
+
+    limiter.acquire(5).catch(() => undefined);
+
+    expect(limiter.state().waitMs).toBe(500);
+  });
+
+  it('should give back reserved capacity when a caller aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 1 });
+    await limiter.acquire(1);
+    const controller = new AbortController();
+
+    const aborted = limiter.acquire(1, controller.signal);
+    controller.abort(new Error('cancelled'));
+
+    await expect(aborted).rejects.toThrow('cancelled');
+    expect(limiter.state()).toEqual({ queued: 0, waitMs: 0 });
+  });
+});
@@ -0,0 +1,100 @@
+import { sleep } from './retry';
+
+export interface RateLimitOptions {
+    /** Average requests per second, retries included. */
+    requestsPerSecond?: number;
+    /** Average events per second, counted across all requests. */
+    eventsPerSecond?: number;
+    /** How many requests may go out back to back before the rate applies. Defaults to `requestsPerSecond`. */
+    burstRequests?: number;
+    /** How many events may go out back to back before the rate applies. Defaults to `eventsPerSecond`. */
+    burstEvents?: number;
+}
+
+export interface RateLimiterState {
+    /** Requests currently waiting for capacity. */
+    queued: number;
+    /** How long a request made now would wait. */
+    waitMs: number;
+}
+
+/** A token bucket that hands out reservations: tokens may go negative, and later callers wait for the debt to refill. */
+class TokenBucket {
+    private tokens: number;
+    private updatedAt = Date.now();
+
+    constructor(private readonly ratePerSecond: number, private readonly capacity: number) {
+        this.tokens = capacity;
+    }
+
+    /** Takes `count` tokens and returns how long to wait before using them. */
+    reserve(count: number): number {
+        this.refill();
+        this.tokens -= count;
+        return this.delay();
+    }
+
+    /** Returns tokens reserved by a caller that gave up waiting. */
+    refund(count: number): void {
+        this.refill();
+        this.tokens = Math.min(this.capacity, this.tokens + count);
+    }
+
+    delay(): number {
+        this.refill();
+        return this.tokens >= 0 ? 0 : Math.ceil((-this.tokens / this.ratePerSecond) * 1000);
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        this.tokens = Math.min(this.capacity, this.tokens + ((now - this.updatedAt) / 1000) * this.ratePerSecond);
+        this.updatedAt = now;
+    }
+}
+
+/** Queues requests until both the request and the event budget allow them, first come, first served. */
+export class RateLimiter {
+    private readonly requests?: TokenBucket;
+    private readonly events?: TokenBucket;
+    private queued = 0;
+
+    constructor(options: RateLimitOptions) {
+        if (options.requestsPerSecond && options.requestsPerSecond > 0) {
+            this.requests = new TokenBucket(
+                options.requestsPerSecond,
+                Math.max(1, options.burstRequests ?? options.requestsPerSecond),
+            );
+        }
+        if (options.eventsPerSecond && options.eventsPerSecond > 0) {
+            this.events = new TokenBucket(
+                options.eventsPerSecond,
+                Math.max(1, options.burstEvents ?? options.eventsPerSecond),
+            );
+        }
+    }
+
+    async acquire(eventCount: number, signal?: AbortSignal): Promise<void> {
+        const waitMs = Math.max(this.requests?.reserve(1) ?? 0, this.events?.reserve(eventCount) ?? 0);
+        if (waitMs === 0) {
+            return;
+        }
+
+        this.queued++;
+        try {
+            await sleep(waitMs, signal);
+        } catch (error) {
+            this.requests?.refund(1);
+            this.events?.refund(eventCount);
+            throw error;
+        } finally {
+            this.queued--;
+        }
+    }
+
+    state(): RateLimiterState {
+        return {
+            queued: this.queued,
+            waitMs: Math.max(this.requests?.delay() ?? 0, this.events?.delay() ?? 0),
+        };
+    }
+}
@@ -0,0 +1,70 @@
+import { aggregateResults, readRequestResult } from './result';
+
+describe('readRequestResult', () => {
+  const events = [{ type: 'a' }, { type: 'b' }, { type: 'c' }];
+  const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } });
+
+  it('should ignore bodies that are not JSON', async () => {
+    const result = await readRequestResult(new Response('{"accepted":0}'), events, [0, 1, 2], 1, 5);
+
+    expect(result).toMatchObject({ accepted: 3, rejected: [], attempts: 1, latencyMs: 5 });
+  });
+
+  it('should ignore malformed JSON', async () => {
+    const response = new Response('{not json', { headers: { 'Content-Type': 'application/json' } });
+
+    expect((await readRequestResult(response, events, [0, 1, 2], 1, 0)).accepted).toBe(3);
+  });
+
+  it('should derive the accepted count from rejections when it is missing', async () => {
+    const result = await readRequestResult(json({ rejected: [{ index: 0, error: 'bad' }] }), events, [0, 1, 2], 1, 0);
+
+    expect(result.accepted).toBe(2);
+    expect(result.rejected[0]).toMatchObject({ index: 0, reason: 'bad' });
+  });
+
+  it('should skip rejections that do not point at an event', async () => {
+    const body = { rejected: [{ index: 7, reason: 'x' }, { reason: 'no index' }, null] };
+
+    expect((await readRequestResult(json(body), events, [0, 1, 2], 1, 0)).rejected).toEqual([]);
+  });
+
+  it('should offset indices by the position of the batch', async () => {
+    const result = await readRequestResult(json({ rejected: [{ index: 1 }] }), events, [10, 11, 12], 1, 0);
+
+    expect(result.rejected).toEqual([
+      { index: 11, event: { type: 'b' }, reason: 'rejected', code: undefined, status: undefined, retryable: false }
+    ]);
+  });
+
+  it('should accept a bare list of failed indices', async () => {
+    const result = await readRequestResult(json({ failed: [0, 2] }), events, [0, 1, 2], 1, 0);
+
+    expect(result.rejected.map(rejection => rejection.index)).toEqual([0, 2]);
+    expect(result.delivered).toEqual([{ type: 'b' }]);
+  });
+
+  it('should classify rejections by explicit flag or retryable status', async () => {
+    const body = { rejected: [{ index: 0, status: 503 }, { index: 1, status: 400 }, { index: 2, status: 400, retryable: true }] };
+
+    const result = await readRequestResult(json(body), events, [0, 1, 2], 1, 0, [503]);
+
+    expect(result.rejected.map(rejection => rejection.retryable)).toEqual([true, false, true]);
+  });
+
+  it('should read request_id from the body', async () => {
+    expect((await readRequestResult(json({ request_id: 'r1' }), events, [0, 1, 2], 1, 0)).requestId).toBe('r1');
+  });
+});
+
+describe('aggregateResults', () => {
+  it('should sum counts and keep the last response', async () => {
+    const first = await readRequestResult(new Response('OK'), [{ type: 'a' }], [0], 2, 10);
+    const last = await readRequestResult(new Response('OK', { headers: { 'X-Request-Id': 'r2' } }), [{ type: 'b' }], [1], 1, 5);
+
+    const result = aggregateResults([first, last], 20);
+
+    expect(result).toMatchObject({ accepted: 2, attempts: 3, latencyMs: 20, requestId: 'r2' });
+    expect(result.response).toBe(last.response);
+  });
+});
@@ -0,0 +1,148 @@
+import type { NexusEvent } from './index';
+
+export interface EventRejection {
+    /** Position of the event in the array passed to `send`. */
+    index: number;
+    event: NexusEvent;
+    reason: string;
+    code?: string;
+    /** Per-event status, when the endpoint reports one (e.g. in a 207 Multi-Status body). */
+    status?: number;
+    /** Transient rejections are retried on their own; permanent ones are dead-lettered. */
+    retryable: boolean;
+}
+
+export interface RequestResult {
+    response: Response;
+    /** From the `X-Request-Id` header, or `requestId` in the response body. */
+    requestId?: string;
+    /** Attempts this request took, including retries. */
+    attempts: number;
+    /** Time from the first attempt to the final response, including backoff. */
+    latencyMs: number;
+    accepted: number;
+    rejected: EventRejection[];
+    /** Events that landed: everything the endpoint did not reject. */
+    delivered: NexusEvent[];
+}
+
+export interface SendResult {
+    /** Events the endpoint accepted across all requests. */
+    accepted: number;
+    /** Events the endpoint reported as rejected, with its reasons. */
+    rejected: EventRejection[];
+    /** Events that landed, in the order they were sent. */
+    delivered: NexusEvent[];
+    /** Request id of the last request. */
+    requestId?: string;
+    /** Total attempts across all requests. */
+    attempts: number;
+    /** Wall-clock time of the whole send. */
+    latencyMs: number;
+    /** Response to the last request. */
+    response: Response;
+    /** One entry per request, in the order the events were sent. */
+    requests: RequestResult[];
+}
+
+interface RejectionBody {
+    index?: unknown;
+    status?: unknown;
+    retryable?: unknown;
+    reason?: unknown;
+    message?: unknown;
+    error?: unknown;
+    code?: unknown;
+}
+
+interface ResultBody {
+    accepted?: unknown;
+    rejected?: unknown;
+    errors?: unknown;
+    failed?: unknown;
+    requestId?: unknown;
+    request_id?: unknown;
+}
+
+/**
+ * Builds the result of one request. A JSON body may report `accepted`, and per-event
+ * `rejected` (or `errors`, or `failed`) entries: either a bare index, or
+ * `{ index, reason | message | error, code?, status?, retryable? }`.
+ * The body is read from a clone, so `response` stays readable for the caller.
+ *
+ * `indices` maps each event in this request to its position in the array passed to `send`.
+ * A rejection is retryable when the endpoint says so, or when its status is in `retryOnStatus`.
+ */
+export async function readRequestResult(
+    response: Response,
+    events: NexusEvent[],
+    indices: number[],
+    attempts: number,
+    latencyMs: number,
+    retryOnStatus: number[] = [],
+): Promise<RequestResult> {
+    const body = await readJsonBody(response);
+    const entries = [body?.rejected, body?.errors, body?.failed].find(Array.isArray) ?? [];
+    const rejected: EventRejection[] = [];
+    const rejectedPositions = new Set<number>();
+
+    for (const item of entries as Array<RejectionBody | number>) {
+        const entry: RejectionBody = typeof item === 'number' ? { index: item } : item;
+        if (typeof entry?.index !== 'number' || !events[entry.index] || rejectedPositions.has(entry.index)) {
+            continue;
+        }
+        const reason = [entry.reason, entry.message, entry.error].find(value => typeof value === 'string') as string | undefined;
+        const status = typeof entry.status === 'number' ? entry.status : undefined;
+        rejectedPositions.add(entry.index);
+        rejected.push({
+            index: indices[entry.index],
+            event: events[entry.index],
+            reason: reason ?? 'rejected',
+            code: typeof entry.code === 'string' ? entry.code : undefined,
+            status,
+            retryable: typeof entry.retryable === 'boolean'
+                ? entry.retryable
+                : status !== undefined && retryOnStatus.includes(status),
+        });
+    }
+
+    const headerId = typeof response.headers?.get === 'function' ? response.headers.get('x-request-id') : null;
+    const bodyId = [body?.requestId, body?.request_id].find(value => typeof value === 'string') as string | undefined;
+
+    return {
+        response,
+        requestId: headerId ?? bodyId,
+        attempts,
+        latencyMs,
+        accepted: typeof body?.accepted === 'number' ? body.accepted : events.length - rejected.length,
+        rejected,
+        delivered: events.filter((_, position) => !rejectedPositions.has(position)),
+    };
+}
+
+export function aggregateResults(requests: RequestResult[], latencyMs: number): SendResult {
+    const last = requests[requests.length - 1];
+    return {
+        accepted: requests.reduce((total, request) => total + request.accepted, 0),
+        rejected: requests.flatMap(request => request.rejected),
+        delivered: requests.flatMap(request => request.delivered),
+        requestId: last.requestId,
+        attempts: requests.reduce((total, request) => total + request.attempts, 0),
+        latencyMs,
+        response: last.response,
+        requests,
+    };
+}
+
+async function readJsonBody(response: Response): Promise<ResultBody | undefined> {
+    const contentType = typeof response.headers?.get === 'function' ? response.headers.get('content-type') : null;
+    if (!contentType?.includes('json') || typeof response.clone !== 'function') {
+        return undefined;
+    }
+    try {
+        const body = await response.clone().json();
+        return body && typeof body === 'object' ? body as ResultBody : undefined;
+    } catch {
+        return undefined;
+    }
+}
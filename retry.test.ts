@@ -0,0 +1,57 @@
+import { computeBackoff, resolveRetryOptions, DEFAULT_RETRY_STATUS } from './retry';
+
+describe('resolveRetryOptions', () => {
+  it('should disable retries when no options are given', () => {
+    expect(resolveRetryOptions(undefined).maxAttempts).toBe(1);
+    expect(resolveRetryOptions(false).maxAttempts).toBe(1);
+  });
+
+  it('should apply defaults when retry is enabled', () => {
+    const options = resolveRetryOptions(true);
+
+    expect(options.maxAttempts).toBe(3);
+    expect(options.baseDelayMs).toBe(250);
+    expect(options.maxDelayMs).toBe(10000);
+    expect(options.jitter).toBe('full');
+    expect(options.retryOnStatus).toEqual(DEFAULT_RETRY_STATUS);
+    expect(options.retryOnNetworkError(new Error('boom'))).toBe(true);
+    expect(options.retryOnTimeout).toBe(true);
+  });
+
+  it('should clamp invalid attempt counts to a single attempt', () => {
+    expect(resolveRetryOptions({ maxAttempts: 0 }).maxAttempts).toBe(1);
+    expect(resolveRetryOptions({ maxAttempts: -5 }).maxAttempts).toBe(1);
+  });
+
+  it('should accept a predicate for network errors', () => {
+    const options = resolveRetryOptions({ retryOnNetworkError: (error) => (error as Error).message === 'reset' });
+
+    expect(options.retryOnNetworkError(new Error('reset'))).toBe(true);
+    expect(options.retryOnNetworkError(new Error('other'))).toBe(false);
+  });
+});
+
+describe('computeBackoff', () => {
+  const options = (jitter: 'full' | 'equal' | 'none') =>
+    resolveRetryOptions({ baseDelayMs: 100, maxDelayMs: 1000, jitter });
+
+  it('should grow exponentially without jitter', () => {
+    expect(computeBackoff(1, options('none'))).toBe(100);
+    expect(computeBackoff(2, options('none'))).toBe(200);
+    expect(computeBackoff(3, options('none'))).toBe(400);
+  });
+
+  it('should cap the delay at maxDelayMs', () => {
+    expect(computeBackoff(10, options('none'))).toBe(1000);
+  });
+
+  it('should scale the whole delay with full jitter', () => {
+    expect(computeBackoff(2, options('full'), () => 0)).toBe(0);
+    expect(computeBackoff(2, options('full'), () => 0.5)).toBe(100);
+  });
+
+  it('should keep at least half the delay with equal jitter', () => {
+    expect(computeBackoff(2, options('equal'), () => 0)).toBe(100);
+    expect(computeBackoff(2, options('equal'), () => 1)).toBe(200);
+  });
+});
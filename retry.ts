@@ -0,0 +1,76 @@
+export type JitterMode = 'full' | 'equal' | 'none';
+
+export interface RetryOptions {
+    /** Total number of attempts, including the first request. */
+    maxAttempts?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    jitter?: JitterMode;
+    /** HTTP status codes that are worth another attempt. */
+    retryOnStatus?: number[];
+    /** Whether a rejected fetch (DNS, connection reset, ...) is retried. The predicate receives the fetch rejection. */
+    retryOnNetworkError?: boolean | ((error: unknown) => boolean);
+    /** Whether an attempt that exceeded `timeoutMs` is retried. */
+    retryOnTimeout?: boolean;
+}
+
+export interface ResolvedRetryOptions {
+    maxAttempts: number;
+    baseDelayMs: number;
+    maxDelayMs: number;
+    jitter: JitterMode;
+    retryOnStatus: number[];
+    retryOnNetworkError: (error: unknown) => boolean;
+    retryOnTimeout: boolean;
+}
+
+export const DEFAULT_RETRY_STATUS = [408, 425, 429, 500, 502, 503, 504];
+
+export function resolveRetryOptions(retry: RetryOptions | boolean | undefined): ResolvedRetryOptions {
+    const options: RetryOptions = retry === true ? {} : retry || { maxAttempts: 1 };
+    const networkError = options.retryOnNetworkError ?? true;
+
+    return {
+        maxAttempts: Math.max(1, Math.floor(options.maxAttempts ?? 3)),
+        baseDelayMs: Math.max(0, options.baseDelayMs ?? 250),
+        maxDelayMs: Math.max(0, options.maxDelayMs ?? 10_000),
+        jitter: options.jitter ?? 'full',
+        retryOnStatus: options.retryOnStatus ?? DEFAULT_RETRY_STATUS,
+        retryOnNetworkError: typeof networkError === 'function' ? networkError : () => networkError,
+        retryOnTimeout: options.retryOnTimeout ?? true,
+    };
+}
+
+export function computeBackoff(attempt: number, options: ResolvedRetryOptions, random: () => number = Math.random): number {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+
+    switch (options.jitter) {
+        case 'none':
+            return exponential;
+        case 'equal':
+            return exponential / 2 + random() * (exponential / 2);
+        default:
+            return random() * exponential;
+    }
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (!signal) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+    if (signal.aborted) {
+        return Promise.reject(signal.reason);
+    }
+
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
@@ -0,0 +1,157 @@
+import { NexusClient, NexusEvent, NexusHttpError, NexusRouter, NexusValidationError } from './index';
+
+describe('NexusRouter', () => {
+  let mockFetch: jest.Mock;
+
+  const SECURITY = 'https://security.example.com/events';
+  const ANALYTICS = 'https://analytics.example.com/events';
+  const ARCHIVE = 'https://archive.example.com/events';
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockImplementation(async () => new Response('OK', { status: 200 }));
+  });
+
+  const destination = (url: string, token = 'test-token') => ({ url, token, fetch: mockFetch });
+
+  const sentTo = (url: string) => mockFetch.mock.calls
+    .filter(call => call[0] === url)
+    .flatMap(call => JSON.parse(call[1].body).map((event: NexusEvent) => event.type));
+
+  const router = (routes: ConstructorParameters<typeof NexusRouter>[0]['routes'], defaultTo?: string | string[]) => new NexusRouter({
+    destinations: {
+      security: destination(SECURITY, 'security-token'),
+      analytics: destination(ANALYTICS),
+      archive: destination(ARCHIVE)
+    },
+    routes,
+    defaultTo
+  });
+
+  it('should route by exact type, prefix, glob and predicate', async () => {
+    const routing = router([
+      { match: 'user.login', to: 'security' },
+      { match: { prefix: 'auth.' }, to: 'security' },
+      { match: { glob: 'page.*.viewed' }, to: 'analytics' },
+      { match: event => event.priority === 'high', to: 'archive' }
+    ]);
+
+    await routing.send([
+      { type: 'user.login' },
+      { type: 'auth.token.revoked' },
+      { type: 'page.home.viewed' },
+      { type: 'page.home.section.viewed' },
+      { type: 'billing.charge', priority: 'high' }
+    ]);
+
+    expect(sentTo(SECURITY)).toEqual(['user.login', 'auth.token.revoked']);
+    expect(sentTo(ANALYTICS)).toEqual(['page.home.viewed']);
+    expect(sentTo(ARCHIVE)).toEqual(['billing.charge']);
+  });
+
+  it('should match any number of segments with a double-star glob', () => {
+    const routing = router([{ match: { glob: 'page.**' }, to: 'analytics' }]);
+
+    expect(routing.destinationsFor({ type: 'page.home.section.viewed' })).toEqual(['analytics']);
+    expect(routing.destinationsFor({ type: 'pages' })).toEqual([]);
+  });
+
+  it('should use the first matching route', () => {
+    const routing = router([
+      { match: { prefix: 'user.' }, to: 'security' },
+      { match: 'user.signup', to: 'analytics' }
+    ]);
+
+    expect(routing.destinationsFor({ type: 'user.signup' })).toEqual(['security']);
+  });
+
+  it('should mirror events to several destinations with their own credentials', async () => {
+    const routing = router([{ match: { prefix: 'auth.' }, to: ['security', 'archive'] }]);
+
+    const outcome = await routing.send({ type: 'auth.failed' });
+
+    expect(sentTo(SECURITY)).toEqual(['auth.failed']);
+    expect(sentTo(ARCHIVE)).toEqual(['auth.failed']);
+    expect(Object.keys(outcome.results).sort()).toEqual(['archive', 'security']);
+    const securityCall = mockFetch.mock.calls.find(call => call[0] === SECURITY);
+    expect(securityCall[1].headers.Authorization).toBe('Bearer security-token');
+  });
+
+  it('should report unmatched events as unrouted without a default', async () => {
+    const outcome = await router([{ match: 'user.login', to: 'security' }]).send([{ type: 'user.login' }, { type: 'other' }]);
+
+    expect(outcome.unrouted).toEqual([{ type: 'other' }]);
+  });
+
+  it('should send unmatched events to the default destination', async () => {
+    await router([{ match: 'user.login', to: 'security' }], 'analytics').send({ type: 'other' });
+
+    expect(sentTo(ANALYTICS)).toEqual(['other']);
+  });
+
+  it('should keep a failing destination from affecting the others', async () => {
+    mockFetch.mockImplementation(async (url: string) => url === SECURITY
+      ? new Response('down', { status: 400 })
+      : new Response('OK', { status: 200 }));
+    const routing = router([{ match: () => true, to: ['security', 'analytics'] }]);
+
+    const outcome = await routing.send({ type: 'a' });
+
+    expect(outcome.failures.security).toBeInstanceOf(NexusHttpError);
+    expect(outcome.results.analytics).toMatchObject({ accepted: 1 });
+  });
+
+  it('should keep retry state separate per destination', async () => {
+    mockFetch.mockImplementation(async (url: string) => url === SECURITY
+      ? new Response('down', { status: 503 })
+      : new Response('OK', { status: 200 }));
+    const routing = new NexusRouter({
+      destinations: {
+        security: { ...destination(SECURITY), circuitBreaker: { failureThreshold: 1 } },
+        analytics: destination(ANALYTICS)
+      },
+      routes: [{ match: () => true, to: ['security', 'analytics'] }]
+    });
+
+    await routing.send({ type: 'a' });
+
+    expect(routing.client('security').getCircuitState()?.state).toBe('open');
+    expect(routing.client('analytics').getCircuitState()).toBeUndefined();
+  });
+
+  it('should accept existing clients as destinations', async () => {
+    const existing = new NexusClient(destination(SECURITY));
+    const routing = new NexusRouter({ destinations: { security: existing }, routes: [{ match: 'a', to: 'security' }] });
+
+    expect(routing.client('security')).toBe(existing);
+  });
+
+  it('should reject routes to unknown destinations', () => {
+    expect(() => router([{ match: 'a', to: 'nowhere' }])).toThrow('Unknown Nexus destination "nowhere".');
+  });
+
+  it('should reject invalid events before sending anything', async () => {
+    await expect(router([]).send([{ type: 'a' }, { type: '' }])).rejects.toThrow(NexusValidationError);
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('should buffer tracked events per destination until flushed', async () => {
+    const routing = router([{ match: { prefix: 'auth.' }, to: ['security', 'archive'] }]);
+
+    expect(routing.track({ type: 'auth.failed' })).toEqual(['security', 'archive']);
+    expect(mockFetch).not.toHaveBeenCalled();
+
+    await routing.flush();
+    expect(sentTo(SECURITY)).toEqual(['auth.failed']);
+    expect(sentTo(ARCHIVE)).toEqual(['auth.failed']);
+  });
+
+  it('should close every destination', async () => {
+    const routing = router([{ match: () => true, to: 'analytics' }]);
+    routing.track({ type: 'a' });
+
+    const summaries = await routing.close();
+
+    expect(summaries.analytics).toMatchObject({ delivered: 1, failed: 0 });
+    expect(routing.client('security').closed).toBe(true);
+  });
+});
@@ -0,0 +1,158 @@
+import type { CloseSummary } from './batcher';
+import { CloseOptions, NexusClient, NexusClientOptions, SendOptions } from './client';
+import type { NexusEvent } from './index';
+import type { SendResult } from './result';
+import { validateEvent, validateEvents } from './validation';
+
+/**
+ * Selects events by `type`: a string matches exactly, `prefix` matches the start, and `glob`
+ * matches with `*` standing for one dot-separated segment and `**` for any number of them.
+ * A function sees the whole event.
+ */
+export type RouteMatch = string | { prefix: string } | { glob: string } | ((event: NexusEvent) => boolean);
+
+export interface Route {
+    match: RouteMatch;
+    /** Destination, or several to mirror the events to. */
+    to: string | string[];
+}
+
+export interface RouterOptions {
+    /** Named destinations, each with its own endpoint, token, retries and other client options. */
+    destinations: Record<string, NexusClient | NexusClientOptions>;
+    /** Checked in order; an event goes where the first matching route sends it. */
+    routes: Route[];
+    /** Where events no route matches go. They are reported as `unrouted` when omitted. */
+    defaultTo?: string | string[];
+}
+
+export interface RouterSendResult {
+    /** Results of the destinations that accepted their events. */
+    results: Record<string, SendResult>;
+    /** Errors of the destinations that failed; the other destinations are unaffected. */
+    failures: Record<string, unknown>;
+    /** Events that matched no route and had no default destination. */
+    unrouted: NexusEvent[];
+}
+
+/** Fans events out to several Nexus destinations, each backed by its own `NexusClient`. */
+export class NexusRouter {
+    private readonly clients = new Map<string, NexusClient>();
+    private readonly routes: Array<{ matches: (event: NexusEvent) => boolean; to: string[] }>;
+    private readonly defaultTo: string[];
+
+    constructor(options: RouterOptions) {
+        for (const [name, destination] of Object.entries(options.destinations)) {
+            this.clients.set(name, destination instanceof NexusClient ? destination : new NexusClient(destination));
+        }
+        this.routes = options.routes.map(route => ({ matches: compileMatch(route.match), to: this.resolve(route.to) }));
+        this.defaultTo = options.defaultTo === undefined ? [] : this.resolve(options.defaultTo);
+    }
+
+    /** The client behind a destination, e.g. to read its circuit or throttle state. */
+    client(name: string): NexusClient {
+        const client = this.clients.get(name);
+        if (!client) {
+            throw new Error(`Unknown Nexus destination "${name}".`);
+        }
+        return client;
+    }
+
+    /** The destinations an event is routed to; empty when it is unrouted. */
+    destinationsFor(event: NexusEvent): string[] {
+        return this.routes.find(route => route.matches(event))?.to ?? this.defaultTo;
+    }
+
+    /**
+     * Sends each destination its events in one `send`, all destinations at once. Resolves once
+     * every destination has settled; a failing destination is reported in `failures` rather than
+     * failing the others.
+     */
+    async send(events: NexusEvent | NexusEvent[], options?: SendOptions): Promise<RouterSendResult> {
+        const batch = Array.isArray(events) ? events : [events];
+        validateEvents(batch);
+
+        const { groups, unrouted } = this.group(batch);
+        const outcome: RouterSendResult = { results: {}, failures: {}, unrouted };
+        await Promise.all([...groups].map(async ([name, grouped]) => {
+            try {
+                outcome.results[name] = await this.client(name).send(grouped, options);
+            } catch (error) {
+                outcome.failures[name] = error;
+            }
+        }));
+        return outcome;
+    }
+
+    /** Buffers the event on every destination it is routed to. Returns those destinations. */
+    track(event: NexusEvent): string[] {
+        validateEvent(event);
+        const destinations = this.destinationsFor(event);
+        destinations.forEach(name => this.client(name).track(event));
+        return destinations;
+    }
+
+    /** Flushes every destination; rejects with the first failure once all have settled. */
+    async flush(): Promise<void> {
+        const flushes = await Promise.allSettled([...this.clients.values()].map(client => client.flush()));
+        const failed = flushes.find((flush): flush is PromiseRejectedResult => flush.status === 'rejected');
+        if (failed) {
+            throw failed.reason;
+        }
+    }
+
+    async close(options?: CloseOptions): Promise<Record<string, CloseSummary>> {
+        const names = [...this.clients.keys()];
+        const summaries = await Promise.all(names.map(name => this.client(name).close(options)));
+        return Object.fromEntries(names.map((name, index) => [name, summaries[index]]));
+    }
+
+    private group(events: NexusEvent[]): { groups: Map<string, NexusEvent[]>; unrouted: NexusEvent[] } {
+        const groups = new Map<string, NexusEvent[]>();
+        const unrouted: NexusEvent[] = [];
+        for (const event of events) {
+            const destinations = this.destinationsFor(event);
+            if (destinations.length === 0) {
+                unrouted.push(event);
+            }
+            for (const name of destinations) {
+                const grouped = groups.get(name) ?? [];
+                grouped.push(event);
+                groups.set(name, grouped);
+            }
+        }
+        return { groups, unrouted };
+    }
+
+    private resolve(to: string | string[]): string[] {
+        const names = Array.isArray(to) ? to : [to];
+        // Fails at construction so a typo in a route cannot silently drop events later.
+        names.forEach(name => this.client(name));
+        return names;
+    }
+}
+
+function compileMatch(match: RouteMatch): (event: NexusEvent) => boolean {
+    if (typeof match === 'function') {
+        return match;
+    }
+    if (typeof match === 'string') {
+        return event => event.type === match;
+    }
+    if ('prefix' in match) {
+        return event => event.type.startsWith(match.prefix);
+    }
+    const pattern = globToRegExp(match.glob);
+    return event => pattern.test(event.type);
+}
+
+function globToRegExp(glob: string): RegExp {
+    const source = glob
+        .split('**')
+        .map(part => part
+            .split('*')
+            .map(literal => literal.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+            .join('[^.]*'))
+        .join('.*');
+    return new RegExp(`^${source}$`);
+}
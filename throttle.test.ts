@@ -0,0 +1,110 @@
+import { Throttle, parseRateLimitHeaders, parseRetryAfter } from './throttle';
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2024-01-01T00:00:00Z');
+
+  it('should parse delta seconds', () => {
+    expect(parseRetryAfter('120', now)).toBe(120000);
+    expect(parseRetryAfter(' 0 ', now)).toBe(0);
+    expect(parseRetryAfter('1.5', now)).toBe(1500);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+  });
+
+  it('should clamp dates in the past to zero', () => {
+    expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+  });
+
+  it('should ignore missing or malformed values', () => {
+    expect(parseRetryAfter(null, now)).toBeUndefined();
+    expect(parseRetryAfter('', now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+});
+
+describe('parseRateLimitHeaders', () => {
+  const now = 1_700_000_000_000;
+
+  it('should read IETF draft headers with a delta reset', () => {
+    const headers = new Headers({ 'RateLimit-Limit': '100', 'RateLimit-Remaining': '7', 'RateLimit-Reset': '30' });
+
+    expect(parseRateLimitHeaders(headers, now)).toEqual({ limit: 100, remaining: 7, resetAt: now + 30000 });
+  });
+
+  it('should read X-RateLimit headers with an epoch reset', () => {
+    const headers = new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '1700000060' });
+
+    expect(parseRateLimitHeaders(headers, now)).toEqual({ remaining: 0, resetAt: 1_700_000_060_000 });
+  });
+
+  it('should return an empty object when no headers are present', () => {
+    expect(parseRateLimitHeaders(new Headers(), now)).toEqual({});
+  });
+});
+
+describe('Throttle', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should not be throttled initially', () => {
+    expect(new Throttle().state()).toEqual({ throttled: false, resumeAt: undefined, waitMs: 0 });
+  });
+
+  it('should pause on 429 with Retry-After', () => {
+    const throttle = new Throttle();
+    throttle.observe(new Response(null, { status: 429, headers: { 'Retry-After': '5' } }));
+
+    expect(throttle.state()).toMatchObject({ throttled: true, waitMs: 5000, resumeAt: Date.now() + 5000 });
+
+    jest.advanceTimersByTime(5000);
+    expect(throttle.state().throttled).toBe(false);
+  });
+
+  it('should fall back to the rate-limit reset on 503 without Retry-After', () => {
+    const throttle = new Throttle();
+    throttle.observe(new Response(null, { status: 503, headers: { 'RateLimit-Reset': '2' } }));
+
+    expect(throttle.state().waitMs).toBe(2000);
+  });
+
+  it('should pause when the remaining quota is exhausted', () => {
+    const throttle = new Throttle();
+    throttle.observe(new Response(null, {
+      status: 200,
+      headers: { 'RateLimit-Limit': '10', 'RateLimit-Remaining': '0', 'RateLimit-Reset': '3' }
+    }));
+
+    expect(throttle.state()).toMatchObject({ throttled: true, waitMs: 3000, limit: 10, remaining: 0 });
+  });
+
+  it('should not shorten an existing pause', () => {
+    const throttle = new Throttle();
+    throttle.observe(new Response(null, { status: 429, headers: { 'Retry-After': '10' } }));
+    throttle.observe(new Response(null, { status: 429, headers: { 'Retry-After': '1' } }));
+
+    expect(throttle.state().waitMs).toBe(10000);
+  });
+
+  it('should resolve wait once the pause is over', async () => {
+    const throttle = new Throttle();
+    throttle.observe(new Response(null, { status: 429, headers: { 'Retry-After': '1' } }));
+
+    let resumed = false;
+    const waiting = throttle.wait().then(() => { resumed = true; });
+
+    await jest.advanceTimersByTimeAsync(999);
+    expect(resumed).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    await waiting;
+    expect(resumed).toBe(true);
+  });
+});
@@ -0,0 +1,112 @@
+import { sleep } from './retry';
+
+export interface RateLimitInfo {
+    limit?: number;
+    remaining?: number;
+    /** Epoch milliseconds at which the current rate-limit window resets. */
+    resetAt?: number;
+}
+
+export interface ThrottleState extends RateLimitInfo {
+    throttled: boolean;
+    /** Epoch milliseconds until which sends are paused, when throttled. */
+    resumeAt?: number;
+    /** Milliseconds left before sends resume; 0 when not throttled. */
+    waitMs: number;
+}
+
+const EPOCH_THRESHOLD_SECONDS = 1_000_000_000;
+
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+    if (!value) {
+        return undefined;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        return Math.round(parseFloat(trimmed) * 1000);
+    }
+
+    const date = Date.parse(trimmed);
+    if (isNaN(date)) {
+        return undefined;
+    }
+    return Math.max(0, date - now);
+}
+
+function readNumber(headers: Headers, names: string[]): number | undefined {
+    for (const name of names) {
+        const value = headers.get(name);
+        if (value !== null && value.trim() !== '' && !isNaN(Number(value))) {
+            return Number(value);
+        }
+    }
+    return undefined;
+}
+
+export function parseRateLimitHeaders(headers: Headers, now: number = Date.now()): RateLimitInfo {
+    const limit = readNumber(headers, ['ratelimit-limit', 'x-ratelimit-limit']);
+    const remaining = readNumber(headers, ['ratelimit-remaining', 'x-ratelimit-remaining']);
+    const reset = readNumber(headers, ['ratelimit-reset', 'x-ratelimit-reset']);
+
+    const info: RateLimitInfo = {};
+    if (limit !== undefined) info.limit = limit;
+    if (remaining !== undefined) info.remaining = remaining;
+    if (reset !== undefined) {
+        // Some servers send an epoch timestamp, others (and the IETF draft) a delta in seconds.
+        info.resetAt = reset >= EPOCH_THRESHOLD_SECONDS ? reset * 1000 : now + reset * 1000;
+    }
+    return info;
+}
+
+export class Throttle {
+    private resumeAt = 0;
+    private rateLimit: RateLimitInfo = {};
+
+    observe(response: Response): void {
+        const headers = response.headers;
+        if (!headers || typeof headers.get !== 'function') {
+            return;
+        }
+
+        const now = Date.now();
+        const info = parseRateLimitHeaders(headers, now);
+        if (info.limit !== undefined || info.remaining !== undefined || info.resetAt !== undefined) {
+            this.rateLimit = info;
+        }
+
+        if (response.status === 429 || response.status === 503) {
+            const retryAfter = parseRetryAfter(headers.get('retry-after'), now);
+            if (retryAfter !== undefined) {
+                this.pauseUntil(now + retryAfter);
+            } else if (info.resetAt !== undefined) {
+                this.pauseUntil(info.resetAt);
+            }
+        } else if (info.remaining === 0 && info.resetAt !== undefined) {
+            this.pauseUntil(info.resetAt);
+        }
+    }
+
+    pauseUntil(timestamp: number): void {
+        this.resumeAt = Math.max(this.resumeAt, timestamp);
+    }
+
+    async wait(signal?: AbortSignal): Promise<void> {
+        let waitMs = this.resumeAt - Date.now();
+        while (waitMs > 0) {
+            await sleep(waitMs, signal);
+            // Another response may have extended the pause while we were asleep.
+            waitMs = this.resumeAt - Date.now();
+        }
+    }
+
+    state(): ThrottleState {
+        const waitMs = Math.max(0, this.resumeAt - Date.now());
+        return {
+            ...this.rateLimit,
+            throttled: waitMs > 0,
+            resumeAt: waitMs > 0 ? this.resumeAt : undefined,
+            waitMs,
+        };
+    }
+}
@@ -0,0 +1,51 @@
+import { FetchTransport, toResponse } from './transport';
+
+describe('FetchTransport', () => {
+  it('should POST the body and headers with fetch', async () => {
+    const response = new Response('OK', { status: 200 });
+    const fetchFn = jest.fn().mockResolvedValue(response);
+    const transport = new FetchTransport(fetchFn);
+
+    const result = await transport.send({ url: 'https://api.example.com/events', headers: { 'X-Test': '1' }, body: '[]' });
+
+    expect(result).toBe(response);
+    expect(fetchFn).toHaveBeenCalledWith('https://api.example.com/events', { method: 'POST', headers: { 'X-Test': '1' }, body: '[]' });
+  });
+
+  it('should pass keepalive and the signal only when set', async () => {
+    const fetchFn = jest.fn().mockResolvedValue(new Response('OK'));
+    const signal = new AbortController().signal;
+
+    await new FetchTransport(fetchFn).send({ url: 'https://x', headers: {}, body: '[]', keepalive: true, signal });
+
+    expect(fetchFn.mock.calls[0][1]).toEqual({ method: 'POST', headers: {}, body: '[]', keepalive: true, signal });
+  });
+});
+
+describe('toResponse', () => {
+  it('should build a Response from a plain transport result', async () => {
+    const response = toResponse({
+      status: 207,
+      statusText: 'Multi-Status',
+      headers: { 'content-type': 'application/json', 'x-tags': ['a', 'b'], 'x-missing': undefined },
+      body: new TextEncoder().encode('{"accepted":1}')
+    });
+
+    expect(response).toBeInstanceOf(Response);
+    expect(response.status).toBe(207);
+    expect(response.statusText).toBe('Multi-Status');
+    expect(response.headers.get('x-tags')).toBe('a, b');
+    expect(response.headers.has('x-missing')).toBe(false);
+    await expect(response.json()).resolves.toEqual({ accepted: 1 });
+  });
+
+  it('should drop the body of statuses that cannot have one', () => {
+    expect(toResponse({ status: 204, body: 'ignored' }).body).toBeNull();
+  });
+
+  it('should pass fetch responses through', () => {
+    const response = new Response('OK');
+
+    expect(toResponse(response)).toBe(response);
+  });
+});
@@ -0,0 +1,69 @@
+export interface TransportRequest {
+    url: string;
+    /** Always includes `Content-Type` and `Authorization`; the request method is always POST. */
+    headers: Record<string, string>;
+    body: string | Uint8Array;
+    /** Aborted when the caller cancels or the attempt times out. Only set when either can happen. */
+    signal?: AbortSignal;
+    /** The request should outlive the page; only meaningful to browser transports. */
+    keepalive?: boolean;
+}
+
+export interface TransportResponse {
+    status: number;
+    statusText?: string;
+    headers?: Headers | Record<string, string | string[] | undefined>;
+    body?: string | Uint8Array | ReadableStream<Uint8Array> | null;
+}
+
+/**
+ * Sends one HTTP request for the client. Resolve with the response whatever its status, and
+ * reject only when no response arrived; the client turns statuses and rejections into errors.
+ */
+export interface Transport {
+    send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/** The default transport. A fetch `Response` is already a `TransportResponse`, so it passes through as-is. */
+export class FetchTransport implements Transport {
+    constructor(private readonly fetchFn: typeof fetch = fetch) {}
+
+    send(request: TransportRequest): Promise<Response> {
+        const init: RequestInit = { method: 'POST', headers: request.headers, body: request.body };
+        if (request.keepalive) {
+            init.keepalive = true;
+        }
+        if (request.signal) {
+            init.signal = request.signal;
+        }
+        return this.fetchFn(request.url, init);
+    }
+}
+
+/** Statuses whose responses must not have a body. */
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+/** Wraps what a transport returned in a fetch `Response`, the form results and errors expose. */
+export function toResponse(result: TransportResponse): Response {
+    if (isResponse(result)) {
+        return result;
+    }
+    const headers = new Headers();
+    if (result.headers instanceof Headers) {
+        result.headers.forEach((value, name) => headers.append(name, value));
+    } else {
+        for (const [name, value] of Object.entries(result.headers ?? {})) {
+            if (value !== undefined) {
+                headers.set(name, Array.isArray(value) ? value.join(', ') : value);
+            }
+        }
+    }
+    const body = NULL_BODY_STATUSES.includes(result.status) ? null : result.body ?? null;
+    return new Response(body as BodyInit | null, { status: result.status, statusText: result.statusText, headers });
+}
+
+/** Custom `fetch` implementations may return fetch-shaped objects rather than real `Response`s. */
+function isResponse(result: TransportResponse): result is Response {
+    return (typeof Response !== 'undefined' && result instanceof Response)
+        || typeof (result as Partial<Response>).text === 'function';
+}
@@ -0,0 +1,27 @@
+import { NexusValidationError } from './errors';
+import type { NexusEvent } from './index';
+
+export function validateEvent(event: unknown, index?: number): asserts event is NexusEvent {
+    const where = index === undefined ? 'Event' : `Event at index ${index}`;
+
+    if (typeof event !== 'object' || event === null || Array.isArray(event)) {
+        throw new NexusValidationError(`${where} must be an object.`, { index });
+    }
+    const type = (event as { type?: unknown }).type;
+    if (typeof type !== 'string' || type.length === 0) {
+        throw new NexusValidationError(`${where} must have a non-empty string \`type\`.`, { index });
+    }
+}
+
+export function validateEvents(events: unknown[]): asserts events is NexusEvent[] {
+    events.forEach((event, index) => validateEvent(event, index));
+}
+
+export function serializeEvents(events: NexusEvent[]): string {
+    try {
+        return JSON.stringify(events);
+    } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        throw new NexusValidationError(`Events could not be serialized: ${message}`, { cause: error });
+    }
+}
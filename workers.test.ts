@@ -0,0 +1,109 @@
+import { NexusClient } from './index';
+import { createRequestScope, withNexus } from './workers';
+
+describe('NexusRequestScope', () => {
+  let mockFetch: jest.Mock;
+  let client: NexusClient;
+  let waitUntil: jest.Mock;
+
+  beforeEach(() => {
+    mockFetch = jest.fn().mockResolvedValue(new Response('OK', { status: 200 }));
+    client = new NexusClient({
+      url: 'https://api.example.com/events',
+      token: 'test-token',
+      fetch: mockFetch
+    });
+    waitUntil = jest.fn();
+  });
+
+  it('should send all tracked events in a single waitUntil call', async () => {
+    const scope = createRequestScope(client, { waitUntil });
+
+    scope.track({ type: 'edge.request' });
+    scope.track({ type: 'edge.response' });
+    expect(waitUntil).not.toHaveBeenCalled();
+
+    scope.end();
+    await waitUntil.mock.calls[0][0];
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify([{ type: 'edge.request' }, { type: 'edge.response' }]));
+  });
+
+  it('should not register anything when no events were tracked', () => {
+    createRequestScope(client, { waitUntil }).end();
+
+    expect(waitUntil).not.toHaveBeenCalled();
+  });
+
+  it('should only end once', () => {
+    const scope = createRequestScope(client, { waitUntil });
+    scope.track({ type: 'edge.request' });
+
+    scope.end();
+    scope.end();
+
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send events tracked after end on their own', async () => {
+    const scope = createRequestScope(client, { waitUntil });
+    scope.end();
+
+    scope.track({ type: 'late.event' });
+    await waitUntil.mock.calls[0][0];
+
+    expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify([{ type: 'late.event' }]));
+  });
+
+  it('should hand failures to onError instead of rejecting waitUntil', async () => {
+    mockFetch.mockResolvedValue(new Response('down', { status: 500 }));
+    const onError = jest.fn();
+    const scope = createRequestScope(client, { waitUntil }, { onError });
+
+    scope.track({ type: 'edge.request' });
+    scope.end();
+    await expect(waitUntil.mock.calls[0][0]).resolves.toBeUndefined();
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), [{ type: 'edge.request' }]);
+  });
+});
+
+describe('withNexus', () => {
+  it('should end the scope after the handler returns', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(new Response('OK', { status: 200 }));
+    const waitUntil = jest.fn();
+    const handler = withNexus<{ TOKEN: string }>(
+      { client: (env) => ({ url: 'https://api.example.com/events', token: env.TOKEN, fetch: mockFetch }) },
+      async (request, env, ctx, nexus) => {
+        nexus.track({ type: 'edge.request', url: request.url });
+        nexus.track({ type: 'edge.response', status: 200 });
+        return new Response('Hello');
+      }
+    );
+
+    const response = await handler(new Request('https://example.com/'), { TOKEN: 'test-token' }, { waitUntil });
+    await waitUntil.mock.calls[0][0];
+
+    expect(await response.text()).toBe('Hello');
+    expect(waitUntil).toHaveBeenCalledTimes(1);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(mockFetch.mock.calls[0][1].headers.Authorization).toBe('Bearer test-token');
+  });
+
+  it('should still send events when the handler throws', async () => {
+    const mockFetch = jest.fn().mockResolvedValue(new Response('OK', { status: 200 }));
+    const waitUntil = jest.fn();
+    const client = new NexusClient({ url: 'https://api.example.com/events', token: 'test-token', fetch: mockFetch });
+    const handler = withNexus({ client: () => client }, async (request, env, ctx, nexus) => {
+      nexus.track({ type: 'edge.error' });
+      throw new Error('boom');
+    });
+
+    await expect(handler(new Request('https://example.com/'), {}, { waitUntil })).rejects.toThrow('boom');
+    await waitUntil.mock.calls[0][0];
+
+    expect(mockFetch.mock.calls[0][1].body).toBe(JSON.stringify([{ type: 'edge.error' }]));
+  });
+});
@@ -0,0 +1,93 @@
+import { NexusClient, NexusClientOptions, NexusEvent } from './index';
+
+/** The subset of Cloudflare's `ExecutionContext` the scope relies on. */
+export interface ExecutionContextLike {
+    waitUntil(promise: Promise<unknown>): void;
+}
+
+export interface RequestScopeOptions {
+    /** Called when the batched send fails. Without it the `waitUntil` promise rejects. */
+    onError?: (error: unknown, events: NexusEvent[]) => void;
+}
+
+export class NexusRequestScope {
+    private events: NexusEvent[] = [];
+    private ended = false;
+
+    constructor(
+        private readonly client: NexusClient,
+        private readonly ctx: ExecutionContextLike,
+        private readonly options: RequestScopeOptions = {},
+    ) {}
+
+    get pending(): number {
+        return this.events.length;
+    }
+
+    track(event: NexusEvent): void {
+        if (this.ended) {
+            // Late events (e.g. from other waitUntil tasks) still go out, just on their own.
+            this.dispatch([event]);
+            return;
+        }
+        this.events.push(event);
+    }
+
+    end(): void {
+        if (this.ended) {
+            return;
+        }
+        this.ended = true;
+
+        const events = this.events;
+        this.events = [];
+        if (events.length > 0) {
+            this.dispatch(events);
+        }
+    }
+
+    private dispatch(events: NexusEvent[]): void {
+        const sending = this.client.send(events).then(() => undefined);
+        const onError = this.options.onError;
+        this.ctx.waitUntil(onError ? sending.catch(error => onError(error, events)) : sending);
+    }
+}
+
+export function createRequestScope(
+    client: NexusClient,
+    ctx: ExecutionContextLike,
+    options?: RequestScopeOptions,
+): NexusRequestScope {
+    return new NexusRequestScope(client, ctx, options);
+}
+
+export type ScopedFetchHandler<Env> = (
+    request: Request,
+    env: Env,
+    ctx: ExecutionContextLike,
+    nexus: NexusRequestScope,
+) => Response | Promise<Response>;
+
+export interface WithNexusOptions<Env> extends RequestScopeOptions {
+    client: (env: Env) => NexusClient | NexusClientOptions;
+}
+
+export function withNexus<Env>(
+    options: WithNexusOptions<Env>,
+    handler: ScopedFetchHandler<Env>,
+): (request: Request, env: Env, ctx: ExecutionContextLike) => Promise<Response> {
+    return async (request, env, ctx) => {
+        const client = options.client(env);
+        const scope = createRequestScope(
+            client instanceof NexusClient ? client : new NexusClient(client),
+            ctx,
+            { onError: options.onError },
+        );
+
+        try {
+            return await handler(request, env, ctx, scope);
+        } finally {
+            scope.end();
+        }
+    };
+}